@@ -1,22 +1,468 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
-import type { TireData, SpeedSymbol, Tire } from "@/lib/calc";
+import {
+  useEffect,
+  useEffectEvent,
+  useState,
+  useMemo,
+  useRef,
+} from "react";
+import type {
+  BindingLimit,
+  CheckResult,
+  CheckStatus,
+  SolverBand,
+  TireData,
+  Tire,
+  LoadVerdictMode,
+  PressureCompensationRule,
+} from "@/lib/calc";
 import {
   lookupSpeedRow,
-  calcResultLoad,
-  calcResultIP,
-  calcDamage,
-  getLimitLoad,
-  calcIPByETRTO,
+  calcPosition,
+  getSpeedTableBasePsi,
+  indexSpeedTable,
+  isSpeedRowInUse,
+  formatSpeedRangeWarning,
+  findTire,
+  solveMaxTotalLoad,
+  solveMaxSpeed,
+  worstCheck,
+  SPEED_SYMBOLS,
+  LOAD_VERDICT_MODE_LABELS,
+  PRESSURE_COMPENSATION_RULE_LABELS,
 } from "@/lib/calc";
-import { exportToExcelAdvanced } from "@/lib/excelExport";
-import { exportToPDF } from "@/lib/pdfExport";
+import type { AxleType } from "@/lib/axles";
+import {
+  AXLE_GROUP_SIZES,
+  AXLE_TYPE_LABELS,
+  TIRES_PER_AXLE,
+  axleGroupLabel,
+  formatAxle,
+  formatWheel,
+  formatWheelSplit,
+  formatWheelSplitWarning,
+  hasWheelSplit,
+  isAxleRaised,
+  positionAxleCount,
+  positionAxleType,
+} from "@/lib/axles";
+import type { BalanceMode, LoadInputMode } from "@/lib/distribution";
+import {
+  sumLoadDistribution,
+  formatDistributionWarning,
+  balanceDistribution,
+  sumAxleWeights,
+  deriveDistributionFromAxleWeights,
+  redistributeRaisedAxles,
+  BALANCE_MODE_LABELS,
+  LOAD_INPUT_MODE_LABELS,
+} from "@/lib/distribution";
+import type { VehiclePreset } from "@/lib/presets";
+import type { CatalogOverrides } from "@/lib/catalog";
+import {
+  loadCatalogOverrides,
+  applyCatalogOverrides,
+  validateTireRecord,
+  saveTireOverride,
+  saveTireOverrides,
+  saveSpeedTableOverride,
+  removeTireOverride,
+  setTireRetired,
+} from "@/lib/catalog";
+import type {
+  CatalogKind,
+  CatalogTable,
+  ColumnMapping,
+} from "@/lib/catalogIO";
+import {
+  readCatalogFile,
+  guessCatalogKind,
+  guessColumnMapping,
+  previewCatalogImport,
+  exportCatalog,
+  CATALOG_FIELDS,
+  CATALOG_KIND_LABELS,
+  OPTIONAL_CATALOG_FIELDS,
+} from "@/lib/catalogIO";
+import {
+  VEHICLE_PRESETS,
+  loadCustomPresets,
+  saveCustomPreset,
+  deleteCustomPreset,
+} from "@/lib/presets";
+import type { Scenario, ScenarioInputs } from "@/lib/scenario";
+import {
+  createScenario,
+  parseScenario,
+  mergeScenarioTires,
+  downloadScenario,
+} from "@/lib/scenario";
+import { createShareUrl, readShareHash } from "@/lib/shareLink";
+import { validateTireData } from "@/lib/tireData";
+import type { RuleProfile } from "@/lib/rules";
+import {
+  RULE_FIELDS,
+  RULE_PROFILES,
+  isSameRules,
+  loadCustomRuleProfiles,
+  saveCustomRuleProfile,
+  deleteCustomRuleProfile,
+} from "@/lib/rules";
+import {
+  formatPercent,
+  formatLoadResult,
+  formatFitment,
+  formatIPResult,
+  formatDamage,
+} from "@/lib/format";
+import type {
+  LoadUnit,
+  PressureUnit,
+  Quantity,
+  SpeedUnit,
+  UnitPreferences,
+} from "@/lib/units";
+import {
+  loadUnitPreferences,
+  saveUnitPreferences,
+  toDisplayUnit,
+  fromDisplayUnit,
+  formatValue,
+  formatQuantity,
+  unitSymbol,
+  PRESSURE_UNIT_LABELS,
+  LOAD_UNIT_LABELS,
+  SPEED_UNIT_LABELS,
+} from "@/lib/units";
+import type { RecommendationSortKey } from "@/lib/recommend";
+import {
+  recommendTires,
+  sortRecommendations,
+  RECOMMENDATION_SORT_LABELS,
+} from "@/lib/recommend";
+import type { DeltaTone, PinnedScenario } from "@/lib/comparison";
+import { buildComparisonRows, calcComparisonColumn } from "@/lib/comparison";
+import {
+  exportToExcelAdvanced,
+  exportComparisonToExcel,
+} from "@/lib/excelExport";
+import { importFromExcel } from "@/lib/excelImport";
+import { exportToPDF, exportComparisonToPDF } from "@/lib/pdfExport";
+import type {
+  ChartLayout,
+  SweepChartKind,
+  SweepVariable,
+} from "@/lib/sensitivity";
+import {
+  layoutSweepChart,
+  sweepSensitivity,
+  SWEEP_CHART_TITLES,
+  SWEEP_VARIABLE_LABELS,
+} from "@/lib/sensitivity";
+import type { FrameLayout } from "@/lib/vehicleFrame";
+import { FRAME_STATUS_COLORS, layoutVehicleFrame } from "@/lib/vehicleFrame";
 
 type TirePosition = {
   id: string;
+  tireSize: string;
   loadDistribution: number;
-  tiresPerPosition: 2 | 4;
+  tiresPerPosition: number;
+  /** Weighed axle load in tons, used in "axleWeight" input mode */
+  axleWeight?: number;
+  axleType?: AxleType;
+  liftable?: boolean;
+  raised?: boolean;
+  /** Share of the load on the left side; even if missing */
+  leftShare?: number;
+  /** Share of each side's load on the inner dual tire */
+  innerShare?: number;
+};
+
+/** A dismissible message shown under the header, e.g. import problems */
+type Notice = {
+  tone: "error" | "warning" | "info";
+  title: string;
+  messages: string[];
+};
+
+/** A CSV or XLSX file being imported into the catalog */
+type CatalogImport = {
+  fileName: string;
+  tables: CatalogTable[];
+  tableIndex: number;
+  kind: CatalogKind;
+  mapping: ColumnMapping;
+};
+
+/** The tire record being added or edited in the catalog editor */
+type TireForm = {
+  tire: Tire;
+  isNew: boolean;
+};
+
+/**
+ * The text color for a check status. Over-pressure needs a consultation rather
+ * than being a failure, so callers pass a softer color for it.
+ */
+const statusColor = (status: CheckStatus, over = "text-red-600") =>
+  status === "ok"
+    ? "text-green-600"
+    : status === "caution"
+    ? "text-amber-600"
+    : over;
+
+// A recommended cold I/P keeps its own color until it nears the I/P limit
+const recIPColor = (check: CheckResult, ok = "") =>
+  check.status === "ok" ? ok : statusColor(check.status, "text-orange-600");
+
+// Background of comparison cells that differ from the baseline scenario
+const DELTA_BACKGROUNDS: Record<DeltaTone, string> = {
+  better: "bg-green-100",
+  worse: "bg-red-100",
+  changed: "bg-blue-50",
+  same: "",
+};
+
+const rgb = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+
+/**
+ * Draws a sensitivity chart laid out by layoutSweepChart; the PDF export draws
+ * the same layout.
+ */
+function SweepChart({ layout }: { layout: ChartLayout }) {
+  const { plot } = layout;
+  return (
+    <svg
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      className="w-full h-auto"
+      fontSize={3}
+    >
+      {layout.yTicks.map((tick) => (
+        <g key={tick.at}>
+          <line
+            x1={plot.left}
+            x2={plot.right}
+            y1={tick.at}
+            y2={tick.at}
+            stroke="#e5e7eb"
+            strokeWidth={0.2}
+          />
+          <text x={plot.left - 1} y={tick.at + 1} textAnchor="end">
+            {tick.label}
+          </text>
+        </g>
+      ))}
+      {layout.xTicks.map((tick) => (
+        <text
+          key={tick.at}
+          x={tick.at}
+          y={plot.bottom + 4}
+          textAnchor="middle"
+        >
+          {tick.label}
+        </text>
+      ))}
+      <polyline
+        points={`${plot.left},${plot.top} ${plot.left},${plot.bottom} ${plot.right},${plot.bottom}`}
+        fill="none"
+        stroke="#6b7280"
+        strokeWidth={0.3}
+      />
+      <text
+        x={(plot.left + plot.right) / 2}
+        y={plot.bottom + 9}
+        textAnchor="middle"
+      >
+        {layout.xLabel}
+      </text>
+      <text
+        transform={`translate(2 ${(plot.top + plot.bottom) / 2}) rotate(-90)`}
+        textAnchor="middle"
+        dominantBaseline="hanging"
+      >
+        {layout.yLabel}
+      </text>
+      {layout.currentX !== null && (
+        <line
+          x1={layout.currentX}
+          x2={layout.currentX}
+          y1={plot.top}
+          y2={plot.bottom}
+          stroke="#9ca3af"
+          strokeWidth={0.3}
+          strokeDasharray="0.6 0.6"
+        />
+      )}
+      {layout.lines.map((line, idx) => (
+        <polyline
+          key={idx}
+          points={line.points.map(([x, y]) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke={rgb(line.color)}
+          strokeWidth={line.dashed ? 0.3 : 0.5}
+          strokeDasharray={line.dashed ? "1.5 1" : undefined}
+        />
+      ))}
+      {layout.markers.map((marker, idx) => (
+        <g key={idx}>
+          <circle
+            cx={marker.x}
+            cy={marker.y}
+            r={1.2}
+            fill="white"
+            stroke={rgb(marker.color)}
+            strokeWidth={0.5}
+          />
+          <text
+            x={marker.x + 1.8}
+            y={marker.y - 1.5}
+            fill={rgb(marker.color)}
+          >
+            {marker.label}
+          </text>
+        </g>
+      ))}
+      <text x={plot.right} y={plot.top + 3} textAnchor="end">
+        {layout.legend.map((item) => (
+          <tspan key={item.label} fill={rgb(item.color)}>
+            {` ━ ${item.label}`}
+          </tspan>
+        ))}
+      </text>
+    </svg>
+  );
+}
+
+// Pixels per layout unit of the vehicle frame; the PDF draws one unit per mm
+const FRAME_SCALE = 5;
+
+/**
+ * Draws the vehicle frame laid out by layoutVehicleFrame, each position's badge
+ * in its status color; the PDF export draws the same layout. Clicking a
+ * position selects it, hovering shows its details.
+ */
+function VehicleFrame({
+  layout,
+  details,
+  selectedId,
+  onSelect,
+}: {
+  layout: FrameLayout;
+  /** Tooltip lines of each position, in the layout's order */
+  details: string[][];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}) {
+  const [hoveredIdx, setHoveredIdx] = useState<number | null>(null);
+  const hovered = hoveredIdx !== null ? layout.positions[hoveredIdx] : null;
+  return (
+    <div
+      className="relative mx-auto"
+      style={{ width: layout.width * FRAME_SCALE, maxWidth: "100%" }}
+    >
+      <svg
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        className="w-full h-auto"
+        fontSize={3}
+      >
+        {layout.positions.map((pos, idx) => {
+          const selected = pos.id === selectedId;
+          return (
+            <g
+              key={idx}
+              className="cursor-pointer"
+              onClick={() => onSelect(pos.id)}
+              onMouseEnter={() => setHoveredIdx(idx)}
+              onMouseLeave={() => setHoveredIdx(null)}
+            >
+              <rect
+                x={pos.bounds.x - 1}
+                y={pos.bounds.y - 1}
+                width={pos.bounds.width + 2}
+                height={pos.bounds.height + 2}
+                rx={1.5}
+                fill={selected ? "#dbeafe" : "transparent"}
+                stroke={selected ? "#3b82f6" : "none"}
+                strokeWidth={0.4}
+              />
+              {pos.axleYs.map((y) => (
+                <line
+                  key={y}
+                  x1={layout.axleFrom}
+                  x2={layout.axleTo}
+                  y1={y}
+                  y2={y}
+                  stroke="#9ca3af"
+                  strokeWidth={0.5}
+                  strokeDasharray={pos.raised ? "1 1" : undefined}
+                />
+              ))}
+              {pos.wheels.map((wheel, wheelIdx) => (
+                <rect
+                  key={wheelIdx}
+                  {...wheel}
+                  rx={0.6}
+                  fill={pos.raised ? "white" : "#374151"}
+                  stroke={pos.raised ? "#6b7280" : "#111827"}
+                  strokeWidth={0.3}
+                  strokeDasharray={pos.raised ? "0.8 0.6" : undefined}
+                />
+              ))}
+              <circle
+                cx={pos.badge.x}
+                cy={pos.badge.y}
+                r={pos.badge.r}
+                fill={rgb(pos.color)}
+              />
+              {pos.liftable && (
+                <circle
+                  cx={pos.badge.x}
+                  cy={pos.badge.y}
+                  r={pos.badge.r - 0.8}
+                  fill="none"
+                  stroke="white"
+                  strokeWidth={0.3}
+                  strokeDasharray="0.8 0.6"
+                />
+              )}
+              <text
+                x={pos.badge.x}
+                y={pos.badge.y + 1}
+                textAnchor="middle"
+                fill="white"
+                fontWeight="bold"
+              >
+                P{pos.id}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      {hovered && hoveredIdx !== null && details[hoveredIdx] && (
+        <div
+          className="absolute z-10 -translate-x-1/2 mt-1 pointer-events-none bg-gray-900 text-white text-[11px] rounded px-2 py-1 shadow whitespace-nowrap"
+          style={{
+            left: "50%",
+            top: `${
+              ((hovered.bounds.y + hovered.bounds.height) / layout.height) * 100
+            }%`,
+          }}
+        >
+          {details[hoveredIdx].map((line) => (
+            <div key={line}>{line}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EMPTY_TIRE: Tire = {
+  "TIRE Size": "",
+  "LOAD INDEX": 0,
+  "STD I/P": 0,
+  "Speed symbol": "G",
 };
 
 /**
@@ -31,84 +477,339 @@ export default function Page() {
   const [loading, setLoading] = useState(true);
   const [selectedTireIndex, setSelectedTireIndex] = useState(0);
   const [totalLoad, setTotalLoad] = useState(35);
+  const [loadInputMode, setLoadInputMode] =
+    useState<LoadInputMode>("distribution");
   const [speed, setSpeed] = useState(50);
+  const [rules, setRules] = useState<RuleProfile>(RULE_PROFILES[0]);
+  const verdictMode = rules.verdictMode;
+  const [compensationRule, setCompensationRule] =
+    useState<PressureCompensationRule>("proportional");
   const [positions, setPositions] = useState<TirePosition[]>([
-    { id: "1", loadDistribution: 0.18, tiresPerPosition: 2 },
+    { id: "1", tireSize: "", loadDistribution: 0.18, tiresPerPosition: 2 },
   ]);
   const [showSpeedTable, setShowSpeedTable] = useState(false);
-
-  useEffect(() => {
-    fetch("/tire_data.json")
-      .then((res) => res.json())
-      .then((json: TireData) => {
-        json.tires.sort((a, b) => a["TIRE Size"].localeCompare(b["TIRE Size"]));
-        setData(json);
-      })
-      .finally(() => setLoading(false));
-  }, []);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [showRecommendations, setShowRecommendations] = useState(false);
+  // The first pinned scenario is the baseline the others are compared with
+  const [pinnedScenarios, setPinnedScenarios] = useState<PinnedScenario[]>(
+    []
+  );
+  const [recommendationSort, setRecommendationSort] = useState<{
+    key: RecommendationSortKey;
+    reverse: boolean;
+  }>({ key: "margin", reverse: false });
+  // Read from localStorage by validating loaders, which fall back to defaults.
+  // Safe during hydration: none of these render before the data has loaded.
+  const [catalogOverrides, setCatalogOverrides] =
+    useState<CatalogOverrides>(loadCatalogOverrides);
+  const [customPresets, setCustomPresets] =
+    useState<VehiclePreset[]>(loadCustomPresets);
+  const [customRuleProfiles, setCustomRuleProfiles] = useState<RuleProfile[]>(
+    loadCustomRuleProfiles
+  );
+  const [units, setUnits] = useState<UnitPreferences>(loadUnitPreferences);
+  // The catalog as shipped in tire_data.json, before local overrides
+  const [shippedCatalog, setShippedCatalog] = useState<TireData>({
+    tires: [],
+    speed_table: [],
+  });
+  const [tireForm, setTireForm] = useState<TireForm | null>(null);
+  const [tireFormErrors, setTireFormErrors] = useState<string[]>([]);
+  const [catalogImport, setCatalogImport] = useState<CatalogImport | null>(
+    null
+  );
+  const [presetName, setPresetName] = useState("");
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [solverBand, setSolverBand] = useState<SolverBand>("limit");
+  // Optional ceiling for the I/P by ETRTO in psi, for the payload solver
+  const [ipCap, setIpCap] = useState<number | null>(null);
+  const [sweepVariable, setSweepVariable] =
+    useState<SweepVariable>("totalLoad");
+  // The swept range in tons or km/h; null follows the default range
+  const [sweepRange, setSweepRange] = useState<{
+    from: number;
+    to: number;
+  } | null>(null);
+  const [sweepInPDF, setSweepInPDF] = useState(false);
+  // The position picked in the vehicle frame, highlighted in its card
+  const [selectedPositionId, setSelectedPositionId] = useState<string | null>(
+    null
+  );
+  // Problems found in tire_data.json; the affected records are quarantined
+  const [dataProblems, setDataProblems] = useState<string[]>([]);
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+  const excelInputRef = useRef<HTMLInputElement>(null);
+  const catalogInputRef = useRef<HTMLInputElement>(null);
 
   const selectedTire: Tire | null = useMemo(() => {
     if (!data) return null;
     return data.tires[selectedTireIndex] || null;
   }, [data, selectedTireIndex]);
 
-  const positionResults = useMemo(() => {
-    if (!data || !selectedTire) return [];
+  const userTireSizes = useMemo(
+    () => new Set(catalogOverrides.tires.map((t) => t["TIRE Size"])),
+    [catalogOverrides]
+  );
 
-    const row = lookupSpeedRow(data, speed);
-    const speedSymbol = selectedTire["Speed symbol"] as SpeedSymbol;
+  const catalogImportPreview = useMemo(() => {
+    if (!data || !catalogImport) return null;
+    return previewCatalogImport(
+      catalogImport.tables[catalogImport.tableIndex],
+      catalogImport.kind,
+      catalogImport.mapping,
+      data
+    );
+  }, [data, catalogImport]);
 
-    return positions.map((pos) => {
-      const loadPerPositionTon = totalLoad * pos.loadDistribution;
-      const loadPerTire = (loadPerPositionTon / pos.tiresPerPosition) * 1000;
+  const speedIndex = useMemo(
+    () => (data ? indexSpeedTable(data) : null),
+    [data]
+  );
 
-      const limitLoad = getLimitLoad(
-        selectedTire["LOAD INDEX"],
-        row,
-        speedSymbol
-      );
-      const ipByETRTO = calcIPByETRTO(
-        loadPerTire,
-        selectedTire["LOAD INDEX"],
-        selectedTire["STD I/P"]
-      );
-      const resultLoad = calcResultLoad(
-        loadPerTire,
-        selectedTire["LOAD INDEX"]
-      );
-      const resultIP = calcResultIP(ipByETRTO, selectedTire["STD I/P"]);
-      const damage = calcDamage(
-        loadPerTire,
-        selectedTire["LOAD INDEX"],
-        ipByETRTO,
-        selectedTire["STD I/P"]
-      );
+  const speedLookup = useMemo(
+    () => (speedIndex ? lookupSpeedRow(speedIndex, speed) : null),
+    [speedIndex, speed]
+  );
 
-      return {
-        position: pos,
+  // In axle weight mode the total load and distribution follow from the weights
+  const calcPositions = useMemo(
+    () =>
+      loadInputMode === "axleWeight"
+        ? deriveDistributionFromAxleWeights(positions)
+        : positions,
+    [positions, loadInputMode]
+  );
+
+  // The shares the axles actually carry, with raised lift axles' load moved to the others
+  const loadedPositions = useMemo(
+    () => redistributeRaisedAxles(calcPositions),
+    [calcPositions]
+  );
+
+  const calcTotalLoad = useMemo(
+    () =>
+      loadInputMode === "axleWeight" ? sumAxleWeights(positions) : totalLoad,
+    [positions, loadInputMode, totalLoad]
+  );
+
+  const positionResults = useMemo(() => {
+    if (!data || !selectedTire || !speedLookup) return [];
+
+    const { row } = speedLookup;
+    const basePsi = getSpeedTableBasePsi(data);
+
+    return loadedPositions.map((pos) => ({
+      position: pos,
+      ...calcPosition(
+        // fall back to the default tire if the position's tire left the catalog
+        findTire(data, pos.tireSize) || selectedTire,
+        pos,
+        calcTotalLoad,
         row,
-        loadPerTire,
-        limitLoad,
-        ipByETRTO,
-        resultLoad,
-        resultIP,
-        damage,
-      };
-    });
-  }, [data, selectedTire, positions, totalLoad, speed]);
+        basePsi,
+        rules,
+        compensationRule
+      ),
+    }));
+  }, [
+    data,
+    selectedTire,
+    speedLookup,
+    loadedPositions,
+    calcTotalLoad,
+    rules,
+    compensationRule,
+  ]);
+
+  const solver = useMemo(() => {
+    if (!speedIndex || !speedLookup || !positionResults.length) return null;
+    const solverPositions = positionResults.map((r) => ({
+      tire: r.tire,
+      loadDistribution: r.position.loadDistribution,
+      tiresPerPosition: r.position.tiresPerPosition,
+      axleType: r.position.axleType,
+      leftShare: r.position.leftShare,
+      innerShare: r.position.innerShare,
+    }));
+    return {
+      load: solveMaxTotalLoad(
+        solverPositions,
+        speedLookup.row,
+        rules,
+        solverBand,
+        ipCap ?? undefined
+      ),
+      speed: solveMaxSpeed(
+        speedIndex,
+        solverPositions,
+        calcTotalLoad,
+        rules,
+        solverBand
+      ),
+    };
+  }, [
+    speedIndex,
+    speedLookup,
+    positionResults,
+    calcTotalLoad,
+    rules,
+    solverBand,
+    ipCap,
+  ]);
+
+  // only worked out while the list is open, since it runs every catalog tire
+  const recommendations = useMemo(() => {
+    if (!data || !showRecommendations) return [];
+    return sortRecommendations(
+      recommendTires(
+        data,
+        loadedPositions,
+        calcTotalLoad,
+        speed,
+        rules,
+        compensationRule
+      ),
+      recommendationSort.key,
+      recommendationSort.reverse
+    );
+  }, [
+    data,
+    showRecommendations,
+    loadedPositions,
+    calcTotalLoad,
+    speed,
+    rules,
+    compensationRule,
+    recommendationSort,
+  ]);
+  const passingRecommendations = recommendations.filter((r) => r.passes);
+
+  const comparisonColumns = useMemo(
+    () =>
+      data ? pinnedScenarios.map((p) => calcComparisonColumn(p, data)) : [],
+    [data, pinnedScenarios]
+  );
+
+  const comparisonRows = useMemo(
+    () => buildComparisonRows(comparisonColumns, units),
+    [comparisonColumns, units]
+  );
+
+  // By default loads run from empty to twice the current load, speeds over the speed table
+  const defaultSweepRange = useMemo(() => {
+    if (sweepVariable === "totalLoad")
+      return { from: 0, to: Math.max(calcTotalLoad * 2, 1) };
+    const rows = speedIndex?.rows ?? [];
+    return {
+      from: rows.length ? rows[0].speed : 0,
+      to: rows.length ? rows[rows.length - 1].speed : 100,
+    };
+  }, [sweepVariable, calcTotalLoad, speedIndex]);
+
+  const sweep = useMemo(() => {
+    if (!data || !positionResults.length) return null;
+    const { from, to } = sweepRange ?? defaultSweepRange;
+    if (!(to > from)) return null;
+    return sweepSensitivity(
+      data,
+      positionResults.map((r) => ({
+        id: r.position.id,
+        tire: r.tire,
+        loadDistribution: r.position.loadDistribution,
+        tiresPerPosition: r.position.tiresPerPosition,
+        axleType: r.position.axleType,
+        leftShare: r.position.leftShare,
+        innerShare: r.position.innerShare,
+      })),
+      sweepVariable,
+      from,
+      to,
+      calcTotalLoad,
+      speed,
+      rules,
+      compensationRule
+    );
+  }, [
+    data,
+    positionResults,
+    sweepRange,
+    defaultSweepRange,
+    sweepVariable,
+    calcTotalLoad,
+    speed,
+    rules,
+    compensationRule,
+  ]);
+
+  const frameLayout = useMemo(
+    () =>
+      layoutVehicleFrame(
+        positions,
+        positions.map((_, idx) => {
+          const result = positionResults[idx];
+          return result
+            ? worstCheck([
+                result.resultLoad,
+                result.resultIP,
+                result.resultIPCompensated,
+              ])?.status ?? null
+            : null;
+        })
+      ),
+    [positions, positionResults]
+  );
 
   const totalTires = useMemo(() => {
     return positions.reduce((sum, pos) => sum + pos.tiresPerPosition, 0);
   }, [positions]);
 
+  const distributionTotal = useMemo(
+    () => sumLoadDistribution(calcPositions),
+    [calcPositions]
+  );
+
+  const distributionWarning = useMemo(
+    () => formatDistributionWarning(calcPositions),
+    [calcPositions]
+  );
+
+  // Positions whose wheel split leaves wheels without load
+  const wheelSplitWarnings = useMemo(
+    () =>
+      positions.flatMap((pos) => {
+        const warning = formatWheelSplitWarning(pos);
+        return warning ? [`P${pos.id}: ${warning}`] : [];
+      }),
+    [positions]
+  );
+
   const addPosition = () => {
-    const newId = (positions.length + 1).toString();
+    // one past the highest id, so ids stay unique once positions are removed
+    const newId = (
+      Math.max(0, ...positions.map((p) => Number(p.id) || 0)) + 1
+    ).toString();
     setPositions([
       ...positions,
-      { id: newId, loadDistribution: 0.13, tiresPerPosition: 2 },
+      {
+        id: newId,
+        tireSize: selectedTire ? selectedTire["TIRE Size"] : "",
+        loadDistribution: 0.13,
+        tiresPerPosition: 2,
+      },
     ]);
   };
 
+  // Wheel splits are entered in percent of the left or inner tire
+  const clampShare = (value: string) =>
+    Math.min(1, Math.max(0, +value / 100));
+
+  const selectPosition = (id: string) => {
+    setSelectedPositionId(id);
+    document
+      .getElementById(`position-${id}`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
   const removePosition = (id: string) => {
     setPositions(positions.filter((p) => p.id !== id));
   };
@@ -119,36 +820,602 @@ export default function Page() {
     );
   };
 
+  const changeLoadInputMode = (mode: LoadInputMode) => {
+    if (mode === loadInputMode) return;
+    if (mode === "axleWeight") {
+      // seed missing weights from the current total load × distribution
+      setPositions(
+        positions.map((p) => ({
+          ...p,
+          axleWeight:
+            p.axleWeight ?? +(totalLoad * p.loadDistribution).toFixed(2),
+        }))
+      );
+    } else {
+      // carry the weighed loads over as total load and distribution
+      setTotalLoad(+calcTotalLoad.toFixed(2));
+      setPositions(
+        calcPositions.map((p) => ({
+          ...p,
+          loadDistribution: +p.loadDistribution.toFixed(4),
+        }))
+      );
+    }
+    setLoadInputMode(mode);
+  };
+
+  const applyPreset = (name: string) => {
+    setPresetName(name);
+    const preset = [...VEHICLE_PRESETS, ...customPresets].find(
+      (p) => p.name === name
+    );
+    if (!preset) return;
+    const defaultSize = selectedTire ? selectedTire["TIRE Size"] : "";
+    setPositions(
+      preset.positions.map((p, idx) => ({
+        id: (idx + 1).toString(),
+        // keep per-position fitments where the layouts overlap
+        tireSize: positions[idx]?.tireSize || defaultSize,
+        loadDistribution: p.loadDistribution,
+        tiresPerPosition: p.tiresPerPosition,
+        axleType: p.axleType,
+        liftable: p.liftable,
+        axleWeight:
+          loadInputMode === "axleWeight"
+            ? +(calcTotalLoad * p.loadDistribution).toFixed(2)
+            : undefined,
+      }))
+    );
+  };
+
+  const saveAsPreset = () => {
+    const name = window.prompt("Preset name:", presetName)?.trim();
+    if (!name) return;
+    if (VEHICLE_PRESETS.some((p) => p.name === name)) {
+      window.alert(`"${name}" is a built-in preset; choose another name.`);
+      return;
+    }
+    setCustomPresets(saveCustomPreset(name, calcPositions));
+    setPresetName(name);
+  };
+
+  const removePreset = () => {
+    if (!window.confirm(`Delete preset "${presetName}"?`)) return;
+    setCustomPresets(deleteCustomPreset(presetName));
+    setPresetName("");
+  };
+
+  const ruleProfiles = [...RULE_PROFILES, ...customRuleProfiles];
+  const activeRuleProfile = ruleProfiles.find((p) => p.name === rules.name);
+  const rulesModified =
+    !!activeRuleProfile && !isSameRules(activeRuleProfile, rules);
+  // Exports and the summary name the profile the thresholds came from
+  const labelledRules = rulesModified
+    ? { ...rules, name: `${rules.name} (modified)` }
+    : rules;
+
+  const selectRuleProfile = (name: string) => {
+    const profile = ruleProfiles.find((p) => p.name === name);
+    if (profile) setRules(profile);
+  };
+
+  const updateRules = (updates: Partial<RuleProfile>) => {
+    setRules({ ...rules, ...updates });
+  };
+
+  const saveRulesAsProfile = () => {
+    const name = window
+      .prompt("Rule profile name:", rules.custom ? rules.name : "")
+      ?.trim();
+    if (!name) return;
+    if (RULE_PROFILES.some((p) => p.name === name)) {
+      window.alert(`"${name}" is a built-in profile; choose another name.`);
+      return;
+    }
+    const profile = { ...rules, name, custom: true };
+    setCustomRuleProfiles(saveCustomRuleProfile(profile));
+    setRules(profile);
+  };
+
+  const removeRuleProfile = () => {
+    if (!window.confirm(`Delete rule profile "${rules.name}"?`)) return;
+    setCustomRuleProfiles(deleteCustomRuleProfile(rules.name));
+    setRules(RULE_PROFILES[0]);
+  };
+
+  const changeUnits = (updates: Partial<UnitPreferences>) => {
+    const next = { ...units, ...updates };
+    setUnits(next);
+    saveUnitPreferences(next);
+  };
+
+  // Inputs show the preferred unit; state keeps the canonical one.
+  // Rounding hides conversion noise such as 30.000000000000004 mph.
+  const inputValue = (quantity: Quantity, value: number) =>
+    +toDisplayUnit(quantity, value, units).toFixed(4);
+
+  const fromInput = (quantity: Quantity, value: string) =>
+    fromDisplayUnit(quantity, +value, units);
+
+  const fmt = (quantity: Quantity, value: number, decimals?: number) =>
+    formatQuantity(quantity, value, units, decimals);
+
+  // Tooltip lines of the vehicle frame
+  const frameDetails = positions.map((pos, idx) => {
+    const result = positionResults[idx];
+    const heading = `P${pos.id} · ${formatAxle(pos)} (${pos.tiresPerPosition} tires)`;
+    if (!result) return [heading];
+    return [
+      heading,
+      `Load/Tire: ${fmt("tireLoad", result.loadPerTire)}`,
+      `I/P by ETRTO: ${fmt("pressure", result.ipByETRTO)}`,
+      `Rec. Cold I/P @ ${fmt("speed", speed)}: ${fmt("pressure", result.ipCompensated)}${
+        result.resultIPCompensated.status === "ok"
+          ? ""
+          : ` (${formatIPResult(result.resultIPCompensated, true)})`
+      }`,
+      `Load: ${formatLoadResult(result.resultLoad)} · I/P: ${formatIPResult(result.resultIP, true)}`,
+      ...(hasWheelSplit(pos)
+        ? [
+            `Worst wheel: ${formatWheel(
+              result.wheels.reduce((a, b) =>
+                b.loadPerTire > a.loadPerTire ? b : a
+              )
+            )}`,
+          ]
+        : []),
+    ];
+  });
+
+  const describeBinding = (binding: BindingLimit) => {
+    const result = positionResults[binding.positionIndex];
+    const position = `Position ${result.position.id}`;
+    if (binding.check === "ip") {
+      return `${position} reaches the I/P limit of ${fmt("pressure", binding.threshold)}`;
+    }
+    // a zero speed-table factor means the speed symbol is not rated there
+    if (binding.threshold === 0) {
+      return `${position}: speed symbol ${result.tire["Speed symbol"]} is not rated beyond this speed`;
+    }
+    return `${position} reaches the load limit of ${fmt("tireLoad", binding.threshold)} per tire`;
+  };
+
+  // Solved values are rounded down so the applied value stays within the limits
+  const applyMaxTotalLoad = () => {
+    if (!solver || solver.load.max === null) return;
+    const { max } = solver.load;
+    if (loadInputMode === "axleWeight") {
+      const scale = max / calcTotalLoad;
+      setPositions(
+        positions.map((p) => ({
+          ...p,
+          axleWeight: Math.floor((p.axleWeight ?? 0) * scale * 100) / 100,
+        }))
+      );
+    } else {
+      setTotalLoad(Math.floor(max * 100) / 100);
+    }
+  };
+
+  const applyMaxSpeed = () => {
+    if (solver && solver.speed.max !== null)
+      setSpeed(Math.floor(solver.speed.max));
+  };
+
+  const balancePositions = (mode: BalanceMode) => {
+    setPositions(balanceDistribution(positions, mode));
+  };
+
+  // Exporting an unbalanced distribution needs an explicit confirmation
+  const confirmDistribution = () =>
+    !distributionWarning ||
+    window.confirm(`${distributionWarning}\n\nExport anyway?`);
+
+  // Positions fitted with a tire other than the vehicle tire, set per position
+  const ownTireCount = positions.filter(
+    (p) => p.tireSize !== selectedTire?.["TIRE Size"]
+  ).length;
+
+  const selectDefaultTire = (index: number) => {
+    setSelectedTireIndex(index);
+    const tire = data?.tires[index];
+    if (!tire) return;
+    // only positions still on the previous vehicle tire follow it, so a mixed
+    // fitment set per position is kept
+    const previousSize = selectedTire?.["TIRE Size"];
+    setPositions(
+      positions.map((p) =>
+        p.tireSize === previousSize ? { ...p, tireSize: tire["TIRE Size"] } : p
+      )
+    );
+  };
+
+  const sortRecommendationsBy = (key: RecommendationSortKey) =>
+    setRecommendationSort((prev) => ({
+      key,
+      reverse: prev.key === key ? !prev.reverse : false,
+    }));
+
+  // Recommendations are evaluated with the tire on every position, so using
+  // one refits them all, after a confirmation if that replaces mixed fitments
+  const applyRecommendedTire = (tire: Tire) => {
+    if (!data) return;
+    const size = tire["TIRE Size"];
+    const replaced = positions.filter((p) => p.tireSize !== size).length;
+    if (
+      ownTireCount > 0 &&
+      !window.confirm(
+        `${size} will be fitted to every position, replacing the tire of ${replaced} position${replaced > 1 ? "s" : ""}, including those set per position.\n\nContinue?`
+      )
+    )
+      return;
+    setSelectedTireIndex(data.tires.findIndex((t) => t["TIRE Size"] === size));
+    setPositions(positions.map((p) => ({ ...p, tireSize: size })));
+    setShowRecommendations(false);
+  };
+
+  const updateCatalog = (overrides: CatalogOverrides) => {
+    if (!data) return;
+    // tires taken from opened scenarios are neither shipped nor user-defined
+    const known = new Set(
+      [...shippedCatalog.tires, ...catalogOverrides.tires].map((t) => t["TIRE Size"])
+    );
+    const scenarioTires = data.tires.filter((t) => !known.has(t["TIRE Size"]));
+    const tires = applyCatalogOverrides(
+      [...shippedCatalog.tires, ...scenarioTires],
+      overrides
+    );
+    const selectedSize = selectedTire?.["TIRE Size"];
+
+    setCatalogOverrides(overrides);
+    setData({
+      ...data,
+      tires,
+      speed_table: overrides.speedTable ?? shippedCatalog.speed_table,
+    });
+    setSelectedTireIndex(
+      Math.max(
+        tires.findIndex((t) => t["TIRE Size"] === selectedSize),
+        0
+      )
+    );
+  };
+
+  const editTire = (tire: Tire, isNew: boolean) => {
+    setTireForm({ tire: { ...tire }, isNew });
+    setTireFormErrors([]);
+  };
+
+  const saveTireForm = () => {
+    if (!data || !tireForm) return;
+    const takenSizes = tireForm.isNew
+      ? [...data.tires.map((t) => t["TIRE Size"]), ...catalogOverrides.retired]
+      : [];
+    const errors = validateTireRecord(tireForm.tire, takenSizes);
+    setTireFormErrors(errors);
+    if (errors.length) return;
+
+    updateCatalog(saveTireOverride(tireForm.tire));
+    setTireForm(null);
+  };
+
+  const selectCatalogTable = (
+    fileName: string,
+    tables: CatalogTable[],
+    tableIndex: number
+  ) => {
+    const kind = guessCatalogKind(tables[tableIndex]);
+    setCatalogImport({
+      fileName,
+      tables,
+      tableIndex,
+      kind,
+      mapping: guessColumnMapping(tables[tableIndex], kind),
+    });
+  };
+
+  const openCatalogFile = async (file: File) => {
+    let tables: CatalogTable[];
+    try {
+      tables = readCatalogFile(await file.arrayBuffer());
+    } catch (err) {
+      setNotice({
+        tone: "error",
+        title: `Could not import ${file.name}`,
+        messages: [`Not a readable CSV or XLSX file: ${(err as Error).message}`],
+      });
+      return;
+    }
+    if (!tables.length) {
+      setNotice({
+        tone: "error",
+        title: `Could not import ${file.name}`,
+        messages: ["The file holds no table with a header row."],
+      });
+      return;
+    }
+    selectCatalogTable(file.name, tables, 0);
+  };
+
+  const applyCatalogImport = () => {
+    if (!catalogImport || !catalogImportPreview) return;
+    const { changes } = catalogImportPreview;
+
+    if (catalogImportPreview.kind === "tires") {
+      const updates = catalogImportPreview.changes
+        .filter((c) => c.status === "added" || c.status === "changed")
+        .map((c) => c.record);
+      updateCatalog(saveTireOverrides(updates));
+    } else {
+      const rows = catalogImportPreview.changes
+        .filter((c) => c.status !== "removed")
+        .map((c) => c.record)
+        .sort((a, b) => a.speed - b.speed);
+      updateCatalog(saveSpeedTableOverride(rows));
+    }
+
+    setNotice({
+      tone: "info",
+      title: `Imported ${catalogImport.fileName}`,
+      messages: [
+        `${changes.filter((c) => c.status === "added").length} added, ${
+          changes.filter((c) => c.status === "changed").length
+        } changed (${CATALOG_KIND_LABELS[catalogImport.kind].toLowerCase()}).`,
+      ],
+    });
+    setCatalogImport(null);
+  };
+
+  const retiredTires = catalogOverrides.retired
+    .map(
+      (size) =>
+        catalogOverrides.tires.find((t) => t["TIRE Size"] === size) ||
+        shippedCatalog.tires.find((t) => t["TIRE Size"] === size)
+    )
+    .filter((t): t is Tire => !!t);
+
   const exportToExcel = () => {
     if (!data || !selectedTire) return;
+    if (!confirmDistribution()) return;
 
     exportToExcelAdvanced(
       data,
-      selectedTire,
-      totalLoad,
+      selectedTire["TIRE Size"],
+      calcTotalLoad,
+      loadInputMode,
       speed,
-      positions,
-      positionResults
+      labelledRules,
+      compensationRule,
+      calcPositions,
+      positionResults,
+      units
     );
     return;
   };
 
   const exportPDF = () => {
     if (!data || !selectedTire) return;
+    if (!confirmDistribution()) return;
 
     exportToPDF(
       data,
-      selectedTire,
+      calcTotalLoad,
+      loadInputMode,
+      speed,
+      labelledRules,
+      compensationRule,
+      calcPositions,
+      positionResults,
+      units,
+      sweepInPDF ? sweep : null
+    );
+  };
+
+  const currentInputs = (): ScenarioInputs | null => {
+    if (!selectedTire) return null;
+
+    return {
+      tireSize: selectedTire["TIRE Size"],
       totalLoad,
       speed,
+      loadInputMode,
+      rules,
+      compensationRule,
       positions,
-      positionResults
+    };
+  };
+
+  const currentScenario = () => {
+    const inputs = currentInputs();
+    if (!data || !inputs) return null;
+    return createScenario(inputs, data.tires);
+  };
+
+  const saveScenario = () => {
+    const scenario = currentScenario();
+    if (scenario) downloadScenario(scenario);
+  };
+
+  const shareScenario = async () => {
+    const scenario = currentScenario();
+    if (!scenario) return;
+
+    const url = createShareUrl(scenario, window.location.href);
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({
+        tone: "info",
+        title: "Link copied",
+        messages: ["The link to this calculation is on your clipboard."],
+      });
+    } catch {
+      setNotice({
+        tone: "info",
+        title: "Share link",
+        messages: ["Copy the link from the address bar."],
+      });
+    }
+  };
+
+  const pinScenario = () => {
+    const scenario = currentScenario();
+    if (!scenario) return;
+    const name = window
+      .prompt("Scenario name:", `Scenario ${pinnedScenarios.length + 1}`)
+      ?.trim();
+    if (!name) return;
+    setPinnedScenarios([
+      ...pinnedScenarios,
+      { id: `${Date.now()}`, name, scenario },
+    ]);
+  };
+
+  const unpinScenario = (id: string) =>
+    setPinnedScenarios(pinnedScenarios.filter((p) => p.id !== id));
+
+  const makeBaseline = (id: string) =>
+    setPinnedScenarios([
+      ...pinnedScenarios.filter((p) => p.id === id),
+      ...pinnedScenarios.filter((p) => p.id !== id),
+    ]);
+
+  const exportComparison = (format: "excel" | "pdf") => {
+    if (!data || !comparisonColumns.length) return;
+    if (format === "excel") {
+      exportComparisonToExcel(data, comparisonColumns, units);
+    } else {
+      exportComparisonToPDF(comparisonColumns, units);
+    }
+  };
+
+  const applyScenario = (
+    scenario: Scenario,
+    source: string,
+    catalog: TireData,
+    problems: string[] = []
+  ) => {
+    const { tires, warnings } = mergeScenarioTires(
+      catalog.tires,
+      scenario.tires
+    );
+    setData({ ...catalog, tires });
+    const tireIndex = tires.findIndex(
+      (t) => t["TIRE Size"] === scenario.tireSize
+    );
+    setSelectedTireIndex(Math.max(tireIndex, 0));
+    setTotalLoad(scenario.totalLoad);
+    setSpeed(scenario.speed);
+    setLoadInputMode(scenario.loadInputMode);
+    setRules(scenario.rules);
+    setCompensationRule(scenario.compensationRule);
+    setPositions(scenario.positions);
+    setPresetName("");
+    const messages = [...problems, ...warnings];
+    setNotice(
+      messages.length
+        ? { tone: "warning", title: `Opened ${source}`, messages }
+        : null
+    );
+  };
+
+  // A scenario in the URL hash replaces the defaults once the catalog is loaded
+  const openSharedLink = useEffectEvent((catalog: TireData) => {
+    const shared = readShareHash(window.location.hash);
+    if (!shared) return;
+    if (!shared.ok) {
+      setNotice({
+        tone: "error",
+        title: "Could not open the shared link",
+        messages: shared.errors,
+      });
+      return;
+    }
+    applyScenario(shared.scenario, "shared link", catalog);
+  });
+
+  useEffect(() => {
+    fetch("/tire_data.json")
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((raw: unknown) => {
+        // bad records are quarantined and reported rather than computed with
+        const { data: json, problems } = validateTireData(raw);
+        setDataProblems(problems);
+        if (!json) return;
+
+        const overrides = loadCatalogOverrides();
+        const catalog = {
+          tires: applyCatalogOverrides(json.tires, overrides),
+          speed_table: overrides.speedTable ?? json.speed_table,
+        };
+        setShippedCatalog(json);
+        setData(catalog);
+        // positions created before the catalog arrived get the default tire
+        if (catalog.tires.length) {
+          const defaultSize = catalog.tires[0]["TIRE Size"];
+          setPositions((prev) =>
+            prev.map((p) => (p.tireSize ? p : { ...p, tireSize: defaultSize }))
+          );
+        }
+        openSharedLink(catalog);
+      })
+      .catch((err: Error) =>
+        setDataProblems([`Could not load tire_data.json: ${err.message}`])
+      )
+      .finally(() => setLoading(false));
+  }, []);
+
+  const openScenario = async (file: File) => {
+    const result = parseScenario(await file.text());
+    if (!result.ok) {
+      setNotice({
+        tone: "error",
+        title: `Could not open ${file.name}`,
+        messages: result.errors,
+      });
+      return;
+    }
+    if (data) applyScenario(result.scenario, file.name, data);
+  };
+
+  const importExcel = async (file: File) => {
+    const inputs = currentInputs();
+    if (!data || !inputs) return;
+
+    const result = importFromExcel(await file.arrayBuffer(), data.tires, inputs);
+    if (!result.ok) {
+      setNotice({
+        tone: "error",
+        title: `Could not import ${file.name}`,
+        messages: result.problems,
+      });
+      return;
+    }
+    applyScenario(
+      createScenario(result.inputs, data.tires),
+      file.name,
+      data,
+      result.problems
     );
   };
 
   if (loading) return <main className="p-6">Loading data…</main>;
   if (!data || !data.tires.length)
-    return <main className="p-6">Data tidak ditemukan.</main>;
+    return (
+      <main className="p-6">
+        <p>Data tidak ditemukan.</p>
+        {dataProblems.length > 0 && (
+          <ul className="list-disc pl-5 mt-2 text-sm text-red-700 space-y-0.5">
+            {dataProblems.map((problem, idx) => (
+              <li key={idx}>{problem}</li>
+            ))}
+          </ul>
+        )}
+      </main>
+    );
 
   return (
     <main className="p-3 sm:p-6 max-w-7xl mx-auto">
@@ -157,6 +1424,65 @@ export default function Page() {
           Load & I/P Calculation
         </h1>
         <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <button
+            onClick={saveScenario}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            💾 Save
+          </button>
+          <button
+            onClick={() => scenarioInputRef.current?.click()}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            📂 Open
+          </button>
+          <button
+            onClick={shareScenario}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            🔗 Share Link
+          </button>
+          <button
+            onClick={() => excelInputRef.current?.click()}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            📤 Import Excel
+          </button>
+          <input
+            ref={scenarioInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // reset so the same file can be opened again
+              e.target.value = "";
+              if (file) openScenario(file);
+            }}
+          />
+          <input
+            ref={excelInputRef}
+            type="file"
+            accept=".xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importExcel(file);
+            }}
+          />
+          <button
+            onClick={() => setShowCatalog(true)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            🛞 Tire Catalog
+          </button>
+          <button
+            onClick={() => setShowRecommendations(true)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
+          >
+            🔎 Recommend Tire
+          </button>
           <button
             onClick={() => setShowSpeedTable(true)}
             className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg font-medium text-sm touch-manipulation"
@@ -178,6 +1504,151 @@ export default function Page() {
         </div>
       </div>
 
+      {dataProblems.length > 0 && (
+        <details className="mb-4 p-3 rounded-lg border text-xs sm:text-sm bg-red-50 border-red-300 text-red-800">
+          <summary className="cursor-pointer font-bold">
+            tire_data.json has {dataProblems.length} problem
+            {dataProblems.length === 1 ? "" : "s"}; the affected records are
+            left out of the calculator
+          </summary>
+          <ul className="list-disc pl-5 mt-1 space-y-0.5">
+            {dataProblems.map((problem, idx) => (
+              <li key={idx}>{problem}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {notice && (
+        <div
+          className={`mb-4 p-3 rounded-lg border text-xs sm:text-sm ${
+            notice.tone === "error"
+              ? "bg-red-50 border-red-300 text-red-800"
+              : notice.tone === "warning"
+              ? "bg-yellow-50 border-yellow-300 text-yellow-800"
+              : "bg-blue-50 border-blue-300 text-blue-800"
+          }`}
+        >
+          <div className="flex justify-between items-start gap-2">
+            <b>{notice.title}</b>
+            <button
+              onClick={() => setNotice(null)}
+              className="font-bold touch-manipulation"
+            >
+              ✕
+            </button>
+          </div>
+          <ul className="list-disc pl-5 mt-1 space-y-0.5">
+            {notice.messages.map((message, idx) => (
+              <li key={idx}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Tire Recommendations Modal */}
+      {showRecommendations && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="p-3 sm:p-4 border-b flex justify-between items-center sticky top-0 bg-white z-10">
+              <h2 className="text-base sm:text-xl font-bold">
+                Tire Recommendations
+              </h2>
+              <button
+                onClick={() => setShowRecommendations(false)}
+                className="text-gray-500 hover:text-gray-700 text-2xl font-bold touch-manipulation p-2"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="p-2 sm:p-4 overflow-auto">
+              <p className="text-xs sm:text-sm text-gray-600 mb-3">
+                {passingRecommendations.length} of {recommendations.length}{" "}
+                tires pass with every position fitted, at{" "}
+                {fmt("vehicleLoad", calcTotalLoad)} and {fmt("speed", speed)}{" "}
+                under {rules.name}. Headroom is how far the tightest position
+                is below its limit. Using a tire fits it to every position.
+              </p>
+              {passingRecommendations.length === 0 ? (
+                <p className="text-sm text-red-600 font-semibold">
+                  No tire in the catalog passes this load and speed.
+                </p>
+              ) : (
+                <table className="w-full border-collapse border text-[10px] sm:text-xs">
+                  <thead className="sticky top-0 bg-gray-100 z-10">
+                    <tr className="bg-gray-100">
+                      {(
+                        [
+                          "size",
+                          "loadHeadroom",
+                          "ipHeadroom",
+                          "ratedSpeed",
+                          "margin",
+                        ] as RecommendationSortKey[]
+                      ).map((key) => (
+                        <th
+                          key={key}
+                          onClick={() => sortRecommendationsBy(key)}
+                          className="border p-1 sm:p-2 cursor-pointer select-none hover:bg-gray-200"
+                        >
+                          {RECOMMENDATION_SORT_LABELS[key]}
+                          {recommendationSort.key === key &&
+                            (recommendationSort.reverse ? " ▲" : " ▼")}
+                        </th>
+                      ))}
+                      <th className="border p-1 sm:p-2">Status</th>
+                      <th className="border p-1 sm:p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {passingRecommendations.map((rec) => (
+                      <tr
+                        key={rec.tire["TIRE Size"]}
+                        className={`text-center hover:bg-blue-50 ${
+                          rec.tire["TIRE Size"] === selectedTire?.["TIRE Size"]
+                            ? "bg-blue-50 font-semibold"
+                            : ""
+                        }`}
+                      >
+                        <td className="border p-1 sm:p-2 text-left">
+                          {rec.tire["TIRE Size"]}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {formatPercent(rec.loadHeadroom)}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {formatPercent(rec.ipHeadroom)}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {rec.tire["Speed symbol"]} ·{" "}
+                          {fmt("speed", rec.ratedSpeed)}
+                        </td>
+                        <td className="border p-1 sm:p-2 font-semibold">
+                          {formatPercent(rec.margin)}
+                        </td>
+                        <td
+                          className={`border p-1 sm:p-2 font-bold ${statusColor(rec.status)}`}
+                        >
+                          {rec.status === "ok" ? "OK" : "Caution"}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          <button
+                            onClick={() => applyRecommendedTire(rec.tire)}
+                            className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded font-medium touch-manipulation"
+                          >
+                            Fit to all positions
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Speed Table Modal */}
       {showSpeedTable && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
@@ -200,7 +1671,7 @@ export default function Page() {
                     <th className="border p-1 sm:p-2" rowSpan={2}>
                       Speed
                       <br />
-                      (km/h)
+                      ({unitSymbol("speed", units)})
                     </th>
                     <th className="border p-1 sm:p-2" colSpan={6}>
                       Simbol Kecepatan
@@ -224,10 +1695,14 @@ export default function Page() {
                   {data.speed_table.map((row) => (
                     <tr
                       key={row.speed}
-                      className="text-center hover:bg-blue-50"
+                      className={`text-center hover:bg-blue-50 ${
+                        speedLookup && isSpeedRowInUse(speedLookup, row)
+                          ? "bg-red-50 font-semibold"
+                          : ""
+                      }`}
                     >
                       <td className="border p-1 sm:p-2 font-semibold">
-                        {row.speed}
+                        {formatValue("speed", row.speed, units)}
                       </td>
                       <td className="border p-1 sm:p-2">
                         {row.F ? `${(row.F * 100).toFixed(0)}%` : ""}
@@ -247,7 +1722,9 @@ export default function Page() {
                       <td className="border p-1 sm:p-2">
                         {row.M ? `${(row.M * 100).toFixed(0)}%` : ""}
                       </td>
-                      <td className="border p-1 sm:p-2">{row.psi} Psi</td>
+                      <td className="border p-1 sm:p-2">
+                        {fmt("pressure", row.psi)}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -257,6 +1734,618 @@ export default function Page() {
         </div>
       )}
 
+      {/* Tire Catalog Modal */}
+      {showCatalog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="p-3 sm:p-4 border-b flex justify-between items-center sticky top-0 bg-white z-10">
+              <h2 className="text-base sm:text-xl font-bold">Tire Catalog</h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => editTire(EMPTY_TIRE, true)}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                >
+                  + Add Tire
+                </button>
+                <button
+                  onClick={() => {
+                    setShowCatalog(false);
+                    setTireForm(null);
+                    setCatalogImport(null);
+                  }}
+                  className="text-gray-500 hover:text-gray-700 text-2xl font-bold touch-manipulation p-2"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            <div className="p-2 sm:p-4 overflow-auto space-y-4">
+              <p className="text-xs text-gray-600">
+                Changes are stored in this browser only and are merged over
+                the shipped catalog. Entries marked ✎ are user-defined.
+              </p>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => catalogInputRef.current?.click()}
+                  className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                >
+                  📤 Import CSV / XLSX
+                </button>
+                <button
+                  onClick={() => exportCatalog(data, "xlsx")}
+                  className="bg-green-500 hover:bg-green-600 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                >
+                  📥 Export XLSX
+                </button>
+                <button
+                  onClick={() => exportCatalog(data, "csv")}
+                  className="bg-green-500 hover:bg-green-600 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                >
+                  📥 Export CSV
+                </button>
+                {catalogOverrides.speedTable && (
+                  <button
+                    onClick={() => updateCatalog(saveSpeedTableOverride(null))}
+                    className="bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                  >
+                    Use shipped speed table
+                  </button>
+                )}
+                <input
+                  ref={catalogInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) openCatalogFile(file);
+                  }}
+                />
+              </div>
+
+              {catalogImport && catalogImportPreview && (
+                <div className="border border-blue-200 bg-blue-50 rounded-lg p-3 space-y-3">
+                  <h3 className="font-semibold text-sm">
+                    Import {catalogImport.fileName}
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {catalogImport.tables.length > 1 && (
+                      <div>
+                        <label className="text-xs text-gray-600">Sheet</label>
+                        <select
+                          className="border p-2 sm:p-1 rounded w-full text-sm"
+                          value={catalogImport.tableIndex}
+                          onChange={(e) =>
+                            selectCatalogTable(
+                              catalogImport.fileName,
+                              catalogImport.tables,
+                              +e.target.value
+                            )
+                          }
+                        >
+                          {catalogImport.tables.map((table, idx) => (
+                            <option key={idx} value={idx}>
+                              {table.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-xs text-gray-600">Contents</label>
+                      <select
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={catalogImport.kind}
+                        onChange={(e) => {
+                          const kind = e.target.value as CatalogKind;
+                          setCatalogImport({
+                            ...catalogImport,
+                            kind,
+                            mapping: guessColumnMapping(
+                              catalogImport.tables[catalogImport.tableIndex],
+                              kind
+                            ),
+                          });
+                        }}
+                      >
+                        {(Object.keys(CATALOG_KIND_LABELS) as CatalogKind[]).map(
+                          (kind) => (
+                            <option key={kind} value={kind}>
+                              {CATALOG_KIND_LABELS[kind]}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium mb-1">Column mapping</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {CATALOG_FIELDS[catalogImport.kind].map((field) => (
+                        <div key={field}>
+                          <label className="text-xs text-gray-600">
+                            {field}
+                            {OPTIONAL_CATALOG_FIELDS.includes(field) &&
+                              " (optional)"}
+                          </label>
+                          <select
+                            className="border p-2 sm:p-1 rounded w-full text-sm"
+                            value={catalogImport.mapping[field] ?? -1}
+                            onChange={(e) =>
+                              setCatalogImport({
+                                ...catalogImport,
+                                mapping: {
+                                  ...catalogImport.mapping,
+                                  [field]: +e.target.value,
+                                },
+                              })
+                            }
+                          >
+                            <option value={-1}>—</option>
+                            {catalogImport.tables[
+                              catalogImport.tableIndex
+                            ].headers.map((header, idx) => (
+                              <option key={idx} value={idx}>
+                                {header || `Column ${idx + 1}`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {catalogImportPreview.errors.length > 0 && (
+                    <div className="text-xs text-red-700">
+                      <p className="font-medium">
+                        {catalogImportPreview.kind === "tires"
+                          ? "These rows will be skipped:"
+                          : "Fix these rows before importing the speed table:"}
+                      </p>
+                      <ul className="list-disc list-inside max-h-32 overflow-auto">
+                        {catalogImportPreview.errors.map((err, idx) => (
+                          <li key={idx}>{err}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div>
+                    <p className="text-xs font-medium mb-1">
+                      Preview:{" "}
+                      {(["added", "changed", "removed", "unchanged"] as const)
+                        .map(
+                          (status) =>
+                            `${
+                              catalogImportPreview.changes.filter(
+                                (c) => c.status === status
+                              ).length
+                            } ${status}`
+                        )
+                        .join(", ")}
+                    </p>
+                    <div className="max-h-64 overflow-auto">
+                      <table className="w-full border-collapse border text-[10px] sm:text-xs bg-white">
+                        <thead className="bg-gray-100 sticky top-0">
+                          <tr>
+                            <th className="border p-1"></th>
+                            {CATALOG_FIELDS[catalogImport.kind].map((field) => (
+                              <th key={field} className="border p-1">
+                                {field}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {catalogImportPreview.changes
+                            .filter((c) => c.status !== "unchanged")
+                            .map((change, idx) => {
+                              const record = change.record as Record<
+                                string,
+                                string | number
+                              >;
+                              const previous = change.previous as
+                                | Record<string, string | number>
+                                | undefined;
+                              return (
+                                <tr
+                                  key={idx}
+                                  className={`text-center ${
+                                    change.status === "added"
+                                      ? "bg-green-50"
+                                      : change.status === "removed"
+                                      ? "bg-red-50 line-through"
+                                      : "bg-yellow-50"
+                                  }`}
+                                >
+                                  <td className="border p-1 capitalize">
+                                    {change.status}
+                                  </td>
+                                  {CATALOG_FIELDS[catalogImport.kind].map(
+                                    (field) => (
+                                      <td key={field} className="border p-1">
+                                        {previous &&
+                                          previous[field] !== record[field] && (
+                                            <span className="text-gray-400 line-through mr-1">
+                                              {previous[field]}
+                                            </span>
+                                          )}
+                                        {record[field]}
+                                      </td>
+                                    )
+                                  )}
+                                </tr>
+                              );
+                            })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={applyCatalogImport}
+                      disabled={
+                        !catalogImportPreview.changes.some(
+                          (c) => c.status !== "unchanged"
+                        ) ||
+                        (catalogImportPreview.kind === "speedTable" &&
+                          catalogImportPreview.errors.length > 0)
+                      }
+                      className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                    >
+                      Apply
+                    </button>
+                    <button
+                      onClick={() => setCatalogImport(null)}
+                      className="bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {tireForm && (
+                <div className="border border-blue-200 bg-blue-50 rounded-lg p-3 space-y-2">
+                  <h3 className="font-semibold text-sm">
+                    {tireForm.isNew
+                      ? "New Tire"
+                      : `Edit ${tireForm.tire["TIRE Size"]}`}
+                  </h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <div className="col-span-2 sm:col-span-1">
+                      <label className="text-xs text-gray-600">
+                        Tire Size / Pattern
+                      </label>
+                      <input
+                        className="border p-2 sm:p-1 rounded w-full text-sm disabled:bg-gray-100"
+                        value={tireForm.tire["TIRE Size"]}
+                        disabled={!tireForm.isNew}
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "TIRE Size": e.target.value,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">
+                        Load Index ({unitSymbol("tireLoad", units)})
+                      </label>
+                      <input
+                        type="number"
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={
+                          tireForm.tire["LOAD INDEX"]
+                            ? inputValue(
+                                "tireLoad",
+                                tireForm.tire["LOAD INDEX"]
+                              )
+                            : ""
+                        }
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "LOAD INDEX": fromInput(
+                                "tireLoad",
+                                e.target.value
+                              ),
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">
+                        STD I/P ({unitSymbol("pressure", units)})
+                      </label>
+                      <input
+                        type="number"
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={
+                          tireForm.tire["STD I/P"]
+                            ? inputValue("pressure", tireForm.tire["STD I/P"])
+                            : ""
+                        }
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "STD I/P": fromInput("pressure", e.target.value),
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">
+                        Speed Symbol
+                      </label>
+                      <select
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={tireForm.tire["Speed symbol"]}
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "Speed symbol": e.target.value,
+                            },
+                          })
+                        }
+                      >
+                        {SPEED_SYMBOLS.map((symbol) => (
+                          <option key={symbol} value={symbol}>
+                            {symbol}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-2 sm:col-span-2">
+                      <label className="text-xs text-gray-600">
+                        Dual Load ({unitSymbol("tireLoad", units)}, optional)
+                      </label>
+                      <input
+                        type="number"
+                        placeholder="none"
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={
+                          tireForm.tire["DUAL LOAD"] === undefined
+                            ? ""
+                            : inputValue("tireLoad", tireForm.tire["DUAL LOAD"])
+                        }
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "DUAL LOAD":
+                                e.target.value === ""
+                                  ? undefined
+                                  : fromInput("tireLoad", e.target.value),
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="col-span-2 sm:col-span-2">
+                      <label className="text-xs text-gray-600">
+                        Dual Derating (%, used without a dual load)
+                      </label>
+                      <input
+                        type="number"
+                        placeholder="none"
+                        className="border p-2 sm:p-1 rounded w-full text-sm"
+                        value={
+                          tireForm.tire["DUAL DERATING"] === undefined
+                            ? ""
+                            : +(tireForm.tire["DUAL DERATING"] * 100).toFixed(2)
+                        }
+                        onChange={(e) =>
+                          setTireForm({
+                            ...tireForm,
+                            tire: {
+                              ...tireForm.tire,
+                              "DUAL DERATING":
+                                e.target.value === ""
+                                  ? undefined
+                                  : +e.target.value / 100,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                  {tireFormErrors.length > 0 && (
+                    <ul className="list-disc list-inside text-xs text-red-700">
+                      {tireFormErrors.map((err, idx) => (
+                        <li key={idx}>{err}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveTireForm}
+                      className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setTireForm(null)}
+                      className="bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded text-xs sm:text-sm font-medium touch-manipulation"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <table className="w-full border-collapse border text-[10px] sm:text-xs">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="border p-1 sm:p-2 text-left">
+                      Tire Size / Pattern
+                    </th>
+                    <th className="border p-1 sm:p-2">Load Index</th>
+                    <th className="border p-1 sm:p-2">STD I/P</th>
+                    <th className="border p-1 sm:p-2">Speed Symbol</th>
+                    <th className="border p-1 sm:p-2">Dual</th>
+                    <th className="border p-1 sm:p-2">Source</th>
+                    <th className="border p-1 sm:p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.tires.map((tire) => {
+                    const size = tire["TIRE Size"];
+                    const isShipped = shippedCatalog.tires.some(
+                      (t) => t["TIRE Size"] === size
+                    );
+                    const isUser = userTireSizes.has(size);
+                    return (
+                      <tr key={size} className="text-center hover:bg-blue-50">
+                        <td className="border p-1 sm:p-2 text-left font-medium">
+                          {size}
+                          {isUser && " ✎"}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {fmt("tireLoad", tire["LOAD INDEX"])}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {fmt("pressure", tire["STD I/P"])}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {tire["Speed symbol"]}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {tire["DUAL LOAD"]
+                            ? fmt("tireLoad", tire["DUAL LOAD"])
+                            : tire["DUAL DERATING"]
+                            ? `${+(tire["DUAL DERATING"] * 100).toFixed(2)}%`
+                            : "—"}
+                        </td>
+                        <td className="border p-1 sm:p-2">
+                          {isUser
+                            ? isShipped
+                              ? "Edited"
+                              : "User-defined"
+                            : isShipped
+                            ? "Shipped"
+                            : "Scenario"}
+                        </td>
+                        <td className="border p-1 sm:p-2 whitespace-nowrap">
+                          <div className="flex gap-1 justify-center">
+                            <button
+                              onClick={() => editTire(tire, false)}
+                              className="text-blue-600 hover:underline"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() =>
+                                editTire(
+                                  { ...tire, "TIRE Size": `${size} (copy)` },
+                                  true
+                                )
+                              }
+                              className="text-blue-600 hover:underline"
+                            >
+                              Clone
+                            </button>
+                            {isUser && isShipped && (
+                              <button
+                                onClick={() =>
+                                  updateCatalog(removeTireOverride(size))
+                                }
+                                className="text-gray-600 hover:underline"
+                              >
+                                Revert
+                              </button>
+                            )}
+                            <button
+                              onClick={() =>
+                                updateCatalog(
+                                  setTireRetired(size, true, data.tires)
+                                )
+                              }
+                              disabled={data.tires.length <= 1}
+                              title={
+                                data.tires.length <= 1
+                                  ? "The last tire in the catalog cannot be retired"
+                                  : undefined
+                              }
+                              className="text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                            >
+                              Retire
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {retiredTires.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-sm mb-1">Retired</h3>
+                  <ul className="text-xs space-y-1">
+                    {retiredTires.map((tire) => (
+                      <li
+                        key={tire["TIRE Size"]}
+                        className="flex items-center gap-2"
+                      >
+                        <span className="text-gray-500 line-through">
+                          {tire["TIRE Size"]}
+                        </span>
+                        <button
+                          onClick={() =>
+                            updateCatalog(
+                              setTireRetired(
+                                tire["TIRE Size"],
+                                false,
+                                data.tires
+                              )
+                            )
+                          }
+                          className="text-blue-600 hover:underline"
+                        >
+                          Restore
+                        </button>
+                        {!shippedCatalog.tires.some(
+                          (t) => t["TIRE Size"] === tire["TIRE Size"]
+                        ) && (
+                          <button
+                            onClick={() =>
+                              updateCatalog(
+                                removeTireOverride(tire["TIRE Size"])
+                              )
+                            }
+                            className="text-red-600 hover:underline"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Compact Layout: Settings + Frame + Config in one view */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
         {/* Left Column: Settings + Frame */}
@@ -268,59 +2357,288 @@ export default function Page() {
             </h2>
 
             <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-xs sm:text-sm">
+                <label className="block">
+                  <span className="block font-medium mb-1.5">Pressure</span>
+                  <select
+                    className="border p-2.5 sm:p-2 rounded w-full touch-manipulation"
+                    value={units.pressure}
+                    onChange={(e) =>
+                      changeUnits({ pressure: e.target.value as PressureUnit })
+                    }
+                  >
+                    {(Object.keys(PRESSURE_UNIT_LABELS) as PressureUnit[]).map(
+                      (unit) => (
+                        <option key={unit} value={unit}>
+                          {PRESSURE_UNIT_LABELS[unit]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block font-medium mb-1.5">Load</span>
+                  <select
+                    className="border p-2.5 sm:p-2 rounded w-full touch-manipulation"
+                    value={units.load}
+                    onChange={(e) =>
+                      changeUnits({ load: e.target.value as LoadUnit })
+                    }
+                  >
+                    {(Object.keys(LOAD_UNIT_LABELS) as LoadUnit[]).map(
+                      (unit) => (
+                        <option key={unit} value={unit}>
+                          {LOAD_UNIT_LABELS[unit]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block font-medium mb-1.5">Speed</span>
+                  <select
+                    className="border p-2.5 sm:p-2 rounded w-full touch-manipulation"
+                    value={units.speed}
+                    onChange={(e) =>
+                      changeUnits({ speed: e.target.value as SpeedUnit })
+                    }
+                  >
+                    {(Object.keys(SPEED_UNIT_LABELS) as SpeedUnit[]).map(
+                      (unit) => (
+                        <option key={unit} value={unit}>
+                          {SPEED_UNIT_LABELS[unit]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+              </div>
+
               <div>
                 <label className="block text-xs sm:text-sm font-medium mb-1.5">
-                  Tire Size / Pattern
+                  Tire Size / Pattern (vehicle)
                 </label>
                 <select
                   className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
                   value={selectedTireIndex}
-                  onChange={(e) => setSelectedTireIndex(+e.target.value)}
+                  onChange={(e) => selectDefaultTire(+e.target.value)}
                 >
                   {data.tires.map((tire, idx) => (
                     <option key={idx} value={idx}>
-                      {tire["TIRE Size"]} - {tire["LOAD INDEX"]}kg,{" "}
+                      {tire["TIRE Size"]} - {fmt("tireLoad", tire["LOAD INDEX"])},{" "}
                       {tire["Speed symbol"]}
+                      {userTireSizes.has(tire["TIRE Size"]) && " ✎ user-defined"}
                     </option>
                   ))}
                 </select>
+                {ownTireCount > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {ownTireCount} position{ownTireCount > 1 ? "s" : ""} with
+                    their own tire keep it.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1.5">
+                  Load Input
+                </label>
+                <select
+                  className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
+                  value={loadInputMode}
+                  onChange={(e) =>
+                    changeLoadInputMode(e.target.value as LoadInputMode)
+                  }
+                >
+                  {(Object.keys(LOAD_INPUT_MODE_LABELS) as LoadInputMode[]).map(
+                    (mode) => (
+                      <option key={mode} value={mode}>
+                        {LOAD_INPUT_MODE_LABELS[mode]}
+                      </option>
+                    )
+                  )}
+                </select>
               </div>
 
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs sm:text-sm font-medium mb-1.5">
-                    Total Load (Ton)
+                    Total Load ({unitSymbol("vehicleLoad", units)})
                   </label>
-                  <input
-                    type="number"
-                    step="0.1"
-                    className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
-                    value={totalLoad}
-                    onChange={(e) => setTotalLoad(+e.target.value)}
-                  />
+                  {loadInputMode === "axleWeight" ? (
+                    <input
+                      type="number"
+                      readOnly
+                      title="Sum of the axle weights"
+                      className="border p-2.5 sm:p-2 rounded w-full text-sm bg-gray-100 text-gray-600"
+                      value={+formatValue("vehicleLoad", calcTotalLoad, units)}
+                    />
+                  ) : (
+                    <input
+                      type="number"
+                      step={units.load === "lb" ? 100 : 0.1}
+                      className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
+                      value={inputValue("vehicleLoad", totalLoad)}
+                      onChange={(e) =>
+                        setTotalLoad(fromInput("vehicleLoad", e.target.value))
+                      }
+                    />
+                  )}
                 </div>
 
                 <div>
                   <label className="block text-xs sm:text-sm font-medium mb-1.5">
-                    Speed (km/h)
+                    Speed ({unitSymbol("speed", units)})
                   </label>
                   <input
                     type="number"
                     className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
-                    value={speed}
-                    onChange={(e) => setSpeed(+e.target.value)}
+                    value={inputValue("speed", speed)}
+                    onChange={(e) => setSpeed(fromInput("speed", e.target.value))}
                   />
                 </div>
               </div>
 
+              {speedLookup?.outOfRange && (
+                <div className="p-2 bg-yellow-50 rounded border border-yellow-300 text-xs sm:text-sm text-yellow-800">
+                  ⚠️{" "}
+                  {formatSpeedRangeWarning(speedLookup, speed, (kmh) =>
+                    fmt("speed", kmh)
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1.5">
+                  Rule Profile
+                </label>
+                <div className="flex gap-1.5 sm:gap-2 items-center text-xs">
+                  <select
+                    className="border p-2.5 sm:p-2 rounded flex-1 min-w-0 text-sm touch-manipulation"
+                    value={activeRuleProfile && !rulesModified ? rules.name : ""}
+                    onChange={(e) => selectRuleProfile(e.target.value)}
+                  >
+                    {(!activeRuleProfile || rulesModified) && (
+                      <option value="" disabled>
+                        {labelledRules.name}
+                      </option>
+                    )}
+                    <optgroup label="Standard">
+                      {RULE_PROFILES.map((p) => (
+                        <option key={p.name} value={p.name}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    {customRuleProfiles.length > 0 && (
+                      <optgroup label="Custom">
+                        {customRuleProfiles.map((p) => (
+                          <option key={p.name} value={p.name}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button
+                    onClick={saveRulesAsProfile}
+                    className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation whitespace-nowrap"
+                  >
+                    💾 Save
+                  </button>
+                  {customRuleProfiles.some((p) => p.name === rules.name) && (
+                    <button
+                      onClick={removeRuleProfile}
+                      className="text-red-500 hover:text-red-700 px-2 py-1 touch-manipulation"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+                <details className="mt-1.5 text-xs sm:text-sm">
+                  <summary className="cursor-pointer text-gray-600">
+                    Thresholds
+                  </summary>
+                  <div className="grid grid-cols-2 gap-1.5 mt-1.5">
+                    {RULE_FIELDS.map(({ key, label }) => (
+                      <label key={key} className="block">
+                        <span className="block text-[11px] sm:text-xs text-gray-600">
+                          {label} (%)
+                        </span>
+                        <input
+                          type="number"
+                          min={1}
+                          className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                          value={+(rules[key] * 100).toFixed(2)}
+                          onChange={(e) => {
+                            const value = +e.target.value / 100;
+                            // a zero limit would fail every check
+                            if (value > 0) updateRules({ [key]: value });
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </details>
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1.5">
+                  Load Verdict
+                </label>
+                <select
+                  className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
+                  value={verdictMode}
+                  onChange={(e) =>
+                    updateRules({
+                      verdictMode: e.target.value as LoadVerdictMode,
+                    })
+                  }
+                >
+                  {(
+                    Object.keys(LOAD_VERDICT_MODE_LABELS) as LoadVerdictMode[]
+                  ).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {LOAD_VERDICT_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1.5">
+                  Pressure Compensation
+                </label>
+                <select
+                  className="border p-2.5 sm:p-2 rounded w-full text-sm touch-manipulation"
+                  value={compensationRule}
+                  onChange={(e) =>
+                    setCompensationRule(
+                      e.target.value as PressureCompensationRule
+                    )
+                  }
+                >
+                  {(
+                    Object.keys(
+                      PRESSURE_COMPENSATION_RULE_LABELS
+                    ) as PressureCompensationRule[]
+                  ).map((rule) => (
+                    <option key={rule} value={rule}>
+                      {PRESSURE_COMPENSATION_RULE_LABELS[rule]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {selectedTire && (
                 <div className="p-2 bg-blue-50 rounded border border-blue-200 text-xs sm:text-sm">
                   <div className="grid grid-cols-2 gap-1.5">
                     <div>
-                      <b>Load Index:</b> {selectedTire["LOAD INDEX"]} kg
+                      <b>Load Index:</b>{" "}
+                      {fmt("tireLoad", selectedTire["LOAD INDEX"])}
                     </div>
                     <div>
-                      <b>STD I/P:</b> {selectedTire["STD I/P"]} psi
+                      <b>STD I/P:</b> {fmt("pressure", selectedTire["STD I/P"])}
                     </div>
                   </div>
                 </div>
@@ -334,78 +2652,28 @@ export default function Page() {
               Vehicle Frame ({totalTires} tires)
             </h2>
 
-            <div className="border-2 border-gray-300 rounded-lg p-2 sm:p-4 bg-gray-50 overflow-x-auto">
-              <div className="flex flex-col gap-2 sm:gap-3 min-w-max">
-                {positions.map((pos) => (
-                  <div
-                    key={pos.id}
-                    className="flex items-center justify-center gap-2"
-                  >
-                    {/* Left Wheels */}
-                    <div className="flex gap-0.5">
-                      {pos.tiresPerPosition === 2 ? (
-                        <>
-                          <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                        </>
-                      ) : (
-                        <>
-                          <div className="flex gap-0.5 mr-1.5 sm:mr-2">
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          </div>
-                          <div className="flex gap-0.5">
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          </div>
-                        </>
-                      )}
-                    </div>
-
-                    <div
-                      className={`h-0.5 bg-gray-400 ${
-                        pos.tiresPerPosition === 2
-                          ? "w-16 sm:w-20"
-                          : "w-12 sm:w-16"
-                      }`}
-                    ></div>
-
-                    <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-full border-2 border-blue-500 bg-blue-50 flex items-center justify-center shrink-0">
-                      <span className="text-[10px] sm:text-xs font-bold text-blue-700">
-                        P{pos.id}
-                      </span>
-                    </div>
-
-                    <div
-                      className={`h-0.5 bg-gray-400 ${
-                        pos.tiresPerPosition === 2
-                          ? "w-16 sm:w-20"
-                          : "w-12 sm:w-16"
-                      }`}
-                    ></div>
-
-                    {/* Right Wheels */}
-                    <div className="flex gap-0.5">
-                      {pos.tiresPerPosition === 2 ? (
-                        <>
-                          <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                        </>
-                      ) : (
-                        <>
-                          <div className="flex gap-0.5">
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          </div>
-                          <div className="flex gap-0.5 ml-1.5 sm:ml-2">
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                            <div className="w-5 sm:w-6 h-8 sm:h-10 bg-gray-700 rounded border border-gray-900"></div>
-                          </div>
-                        </>
-                      )}
-                    </div>
-                  </div>
+            <div className="border-2 border-gray-300 rounded-lg p-2 sm:p-4 bg-gray-50">
+              <VehicleFrame
+                layout={frameLayout}
+                details={frameDetails}
+                selectedId={selectedPositionId}
+                onSelect={selectPosition}
+              />
+              <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 mt-2 text-[11px] text-gray-600">
+                {(["ok", "caution", "over"] as CheckStatus[]).map((status) => (
+                  <span key={status} className="flex items-center gap-1">
+                    <span
+                      className="inline-block w-2.5 h-2.5 rounded-full"
+                      style={{ backgroundColor: rgb(FRAME_STATUS_COLORS[status]) }}
+                    ></span>
+                    {status === "ok"
+                      ? "OK"
+                      : status === "caution"
+                      ? "Caution"
+                      : "Over limit"}
+                  </span>
                 ))}
+                <span>Click an axle to edit it</span>
               </div>
 
               <div className="mt-3 sm:mt-4 text-center">
@@ -423,34 +2691,112 @@ export default function Page() {
         {/* Right Column: Position Cards */}
         <div className="space-y-3 sm:space-y-4">
           <div className="bg-white shadow-lg rounded-xl p-3 sm:p-4">
-            <h2 className="text-base sm:text-lg font-semibold mb-3">
-              Position Configuration
-            </h2>
+            <div className="flex justify-between items-center mb-3">
+              <h2 className="text-base sm:text-lg font-semibold">
+                Position Configuration
+              </h2>
+              <span
+                className={`text-xs sm:text-sm font-bold px-2 py-1 rounded ${
+                  distributionWarning
+                    ? "bg-red-100 text-red-700"
+                    : "bg-green-100 text-green-700"
+                }`}
+              >
+                Total: {(distributionTotal * 100).toFixed(0)}%{" "}
+                {distributionWarning ? "✕" : "✓"}
+              </span>
+            </div>
+
+            <div className="flex gap-1.5 sm:gap-2 items-center mb-3 text-xs">
+              <select
+                className="border p-2 sm:p-1 rounded flex-1 min-w-0 text-sm touch-manipulation"
+                value={presetName}
+                onChange={(e) => applyPreset(e.target.value)}
+              >
+                <option value="">Vehicle preset…</option>
+                <optgroup label="Standard">
+                  {VEHICLE_PRESETS.map((p) => (
+                    <option key={p.name} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </optgroup>
+                {customPresets.length > 0 && (
+                  <optgroup label="Custom">
+                    {customPresets.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <button
+                onClick={saveAsPreset}
+                className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation whitespace-nowrap"
+              >
+                💾 Save
+              </button>
+              {customPresets.some((p) => p.name === presetName) && (
+                <button
+                  onClick={removePreset}
+                  className="text-red-500 hover:text-red-700 px-2 py-1 touch-manipulation"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+
+            {loadInputMode === "distribution" && (
+              <div className="flex flex-wrap gap-1.5 sm:gap-2 items-center mb-3 text-xs">
+                <span className="text-gray-600">Balance:</span>
+                {(Object.keys(BALANCE_MODE_LABELS) as BalanceMode[]).map(
+                  (mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => balancePositions(mode)}
+                      className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation"
+                    >
+                      {BALANCE_MODE_LABELS[mode]}
+                    </button>
+                  )
+                )}
+              </div>
+            )}
 
             <div className="space-y-3 max-h-[500px] sm:max-h-[600px] overflow-y-auto pr-1 sm:pr-2">
               {positions.map((pos, idx) => {
                 const result = positionResults[idx];
+                const splitWarning = formatWheelSplitWarning(pos);
                 return (
                   <div
                     key={pos.id}
-                    className="border rounded-lg p-2.5 sm:p-3 bg-gray-50"
+                    id={`position-${pos.id}`}
+                    className={`border rounded-lg p-2.5 sm:p-3 bg-gray-50 ${
+                      pos.id === selectedPositionId
+                        ? "ring-2 ring-blue-500"
+                        : ""
+                    }`}
                   >
                     <div className="flex justify-between items-center mb-2">
                       <h3 className="font-bold text-blue-600 text-sm sm:text-base">
                         Position {pos.id}
                       </h3>
                       <div className="flex gap-1.5 sm:gap-2 items-center">
-                        <button
-                          onClick={() =>
-                            updatePosition(pos.id, {
-                              tiresPerPosition:
-                                pos.tiresPerPosition === 2 ? 4 : 2,
-                            })
-                          }
-                          className="text-xs bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation"
-                        >
-                          {pos.tiresPerPosition === 2 ? "Single" : "Tandem"}
-                        </button>
+                        {pos.liftable && (
+                          <button
+                            onClick={() =>
+                              updatePosition(pos.id, { raised: !pos.raised })
+                            }
+                            className={`text-xs px-2 py-1 rounded touch-manipulation ${
+                              pos.raised
+                                ? "bg-amber-100 text-amber-800 hover:bg-amber-200"
+                                : "bg-gray-200 hover:bg-gray-300"
+                            }`}
+                          >
+                            {pos.raised ? "⬆ Raised" : "⬇ Lowered"}
+                          </button>
+                        )}
                         {positions.length > 1 && (
                           <button
                             onClick={() => removePosition(pos.id)}
@@ -463,77 +2809,256 @@ export default function Page() {
                     </div>
 
                     <div className="grid grid-cols-2 gap-2 mb-2">
-                      <div>
+                      <div className="col-span-2">
                         <label className="text-xs text-gray-600">
-                          Load Dist.
+                          Tire Size / Pattern
                         </label>
-                        <input
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          max="1"
+                        <select
                           className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
-                          value={pos.loadDistribution}
+                          value={pos.tireSize}
                           onChange={(e) =>
                             updatePosition(pos.id, {
-                              loadDistribution: +e.target.value,
+                              tireSize: e.target.value,
                             })
                           }
-                        />
+                        >
+                          {data.tires.map((tire) => (
+                            <option
+                              key={tire["TIRE Size"]}
+                              value={tire["TIRE Size"]}
+                            >
+                              {tire["TIRE Size"]} -{" "}
+                              {fmt("tireLoad", tire["LOAD INDEX"])},{" "}
+                              {tire["Speed symbol"]}
+                              {userTireSizes.has(tire["TIRE Size"]) &&
+                                " ✎ user-defined"}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {loadInputMode === "axleWeight" ? (
+                        <div>
+                          <label className="text-xs text-gray-600">
+                            Axle Weight ({unitSymbol("vehicleLoad", units)})
+                            {result &&
+                              ` · ${(
+                                result.position.loadDistribution * 100
+                              ).toFixed(0)}%`}
+                          </label>
+                          <input
+                            type="number"
+                            step={units.load === "lb" ? 100 : 0.1}
+                            min="0"
+                            className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                            value={inputValue("vehicleLoad", pos.axleWeight ?? 0)}
+                            onChange={(e) =>
+                              updatePosition(pos.id, {
+                                axleWeight: fromInput(
+                                  "vehicleLoad",
+                                  e.target.value
+                                ),
+                              })
+                            }
+                          />
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="text-xs text-gray-600">
+                            Load Dist.
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="1"
+                            className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                            value={pos.loadDistribution}
+                            onChange={(e) =>
+                              updatePosition(pos.id, {
+                                loadDistribution: +e.target.value,
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="text-xs text-gray-600">
+                          Axle Type
+                        </label>
+                        <select
+                          className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                          value={positionAxleType(pos)}
+                          onChange={(e) => {
+                            const axleType = e.target.value as AxleType;
+                            updatePosition(pos.id, {
+                              axleType,
+                              tiresPerPosition:
+                                TIRES_PER_AXLE[axleType] *
+                                positionAxleCount(pos),
+                            });
+                          }}
+                        >
+                          {(Object.keys(AXLE_TYPE_LABELS) as AxleType[]).map(
+                            (type) => (
+                              <option key={type} value={type}>
+                                {AXLE_TYPE_LABELS[type]} ({TIRES_PER_AXLE[type]})
+                              </option>
+                            )
+                          )}
+                        </select>
                       </div>
                       <div>
-                        <label className="text-xs text-gray-600">Tires</label>
+                        <label className="text-xs text-gray-600">
+                          Axles ({pos.tiresPerPosition} tires)
+                        </label>
                         <select
                           className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
-                          value={pos.tiresPerPosition}
+                          value={positionAxleCount(pos)}
+                          onChange={(e) => {
+                            const axleType = positionAxleType(pos);
+                            updatePosition(pos.id, {
+                              axleType,
+                              tiresPerPosition:
+                                TIRES_PER_AXLE[axleType] * +e.target.value,
+                            });
+                          }}
+                        >
+                          {/* keep a larger group read from a file selectable */}
+                          {[
+                            ...new Set([
+                              ...AXLE_GROUP_SIZES,
+                              positionAxleCount(pos),
+                            ]),
+                          ].map((axles) => (
+                            <option key={axles} value={axles}>
+                              {axleGroupLabel(axles)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label className="flex items-center gap-1.5 text-xs text-gray-600 self-end pb-2 sm:pb-1 touch-manipulation">
+                        <input
+                          type="checkbox"
+                          checked={!!pos.liftable}
                           onChange={(e) =>
                             updatePosition(pos.id, {
-                              tiresPerPosition: +e.target.value as 2 | 4,
+                              liftable: e.target.checked || undefined,
+                              raised: undefined,
                             })
                           }
-                        >
-                          <option value="2">2 (Single)</option>
-                          <option value="4">4 (Tandem)</option>
-                        </select>
+                        />
+                        Lift axle
+                      </label>
+                      <div>
+                        <label className="text-xs text-gray-600">
+                          Left / Right (%)
+                        </label>
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          max="100"
+                          className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                          value={+((pos.leftShare ?? 0.5) * 100).toFixed(1)}
+                          onChange={(e) =>
+                            updatePosition(pos.id, {
+                              leftShare: clampShare(e.target.value),
+                            })
+                          }
+                        />
                       </div>
+                      {positionAxleType(pos) === "dual" && (
+                        <div>
+                          <label className="text-xs text-gray-600">
+                            Inner / Outer (%)
+                          </label>
+                          <input
+                            type="number"
+                            step="1"
+                            min="0"
+                            max="100"
+                            className="border p-2 sm:p-1 rounded w-full text-sm touch-manipulation"
+                            value={+((pos.innerShare ?? 0.5) * 100).toFixed(1)}
+                            onChange={(e) =>
+                              updatePosition(pos.id, {
+                                innerShare: clampShare(e.target.value),
+                              })
+                            }
+                          />
+                        </div>
+                      )}
                     </div>
 
+                    {splitWarning && (
+                      <div className="p-2 mb-2 bg-red-50 rounded border border-red-300 text-[11px] sm:text-xs text-red-700 font-semibold">
+                        ⛔ {splitWarning}
+                      </div>
+                    )}
+
+                    {isAxleRaised(pos) && (
+                      <div className="p-2 mb-2 bg-amber-50 rounded border border-amber-200 text-[11px] sm:text-xs text-amber-800">
+                        Raised: this axle carries no load; its share is spread
+                        over the axles on the road.
+                      </div>
+                    )}
+
                     {result && (
                       <div className="grid grid-cols-2 gap-x-2 sm:gap-x-3 gap-y-1.5 text-[11px] sm:text-xs border-t pt-2 mt-2">
                         <div className="flex justify-between">
-                          <span className="text-gray-600">Load/Tire:</span>
+                          <span className="text-gray-600">
+                            Load/Tire
+                            {hasWheelSplit(result.position) && " (worst)"}:
+                          </span>
                           <span className="font-bold">
-                            {result.loadPerTire.toFixed(0)} kg
+                            {fmt("tireLoad", result.loadPerTire)}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-600">I/P:</span>
                           <span className="font-bold">
-                            {result.ipByETRTO.toFixed(1)} psi
+                            {fmt("pressure", result.ipByETRTO)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between col-span-2">
+                          <span className="text-gray-600">
+                            Rec. Cold I/P @ {fmt("speed", speed)}:
+                          </span>
+                          <span
+                            className={`font-bold ${recIPColor(result.resultIPCompensated, "text-blue-700")}`}
+                          >
+                            {fmt("pressure", result.ipCompensated)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between col-span-2">
+                          <span className="text-gray-600">
+                            Rating ({formatFitment(result.loadRating)}):
+                          </span>
+                          <span className="font-bold">
+                            {fmt("tireLoad", result.loadRating.rating)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between col-span-2">
+                          <span className="text-gray-600">
+                            Limit @ {fmt("speed", speed)}:
+                          </span>
+                          <span className="font-bold">
+                            {fmt("tireLoad", result.limitLoad)}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-600">Load Status:</span>
                           <span
-                            className={`font-bold ${
-                              result.resultLoad === "OK"
-                                ? "text-green-600"
-                                : "text-red-600"
-                            }`}
+                            className={`font-bold ${statusColor(result.resultLoad.status)}`}
                           >
-                            {result.resultLoad}
+                            {formatLoadResult(result.resultLoad)}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-600">I/P Status:</span>
                           <span
-                            className={`font-bold ${
-                              result.resultIP === "OK"
-                                ? "text-green-600"
-                                : "text-orange-600"
-                            }`}
+                            className={`font-bold ${statusColor(result.resultIP.status, "text-orange-600")}`}
                           >
-                            {result.resultIP === "OK" ? "OK" : "CONSULT"}
+                            {formatIPResult(result.resultIP, true)}
                           </span>
                         </div>
                         <div className="flex justify-between col-span-2 pt-1 border-t">
@@ -541,27 +3066,72 @@ export default function Page() {
                           <span>
                             Load:{" "}
                             <b
-                              className={
-                                result.damage.load === "OK"
-                                  ? "text-green-600"
-                                  : "text-red-600"
-                              }
+                              className={statusColor(result.damage.load.status)}
                             >
-                              {result.damage.load}
+                              {formatDamage(result.damage.load)}
                             </b>
                             {" | "}
                             I/P:{" "}
                             <b
-                              className={
-                                result.damage.ip === "OK"
-                                  ? "text-green-600"
-                                  : "text-orange-600"
-                              }
+                              className={statusColor(result.damage.ip.status, "text-orange-600")}
                             >
-                              {result.damage.ip}
+                              {formatDamage(result.damage.ip)}
                             </b>
                           </span>
                         </div>
+                        {hasWheelSplit(result.position) && (
+                          <div className="col-span-2 pt-1 border-t">
+                            <div className="text-gray-600 mb-0.5">
+                              Wheels ({formatWheelSplit(result.position)}):
+                            </div>
+                            <table className="w-full">
+                              <thead className="text-gray-500">
+                                <tr>
+                                  <th className="text-left font-normal">
+                                    Wheel
+                                  </th>
+                                  <th className="text-right font-normal">
+                                    Load/Tire
+                                  </th>
+                                  <th className="text-right font-normal">
+                                    Rec. Cold I/P
+                                  </th>
+                                  <th className="text-right font-normal">
+                                    Load
+                                  </th>
+                                  <th className="text-right font-normal">
+                                    I/P
+                                  </th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {result.wheels.map((wheel) => (
+                                  <tr key={formatWheel(wheel)}>
+                                    <td>{formatWheel(wheel)}</td>
+                                    <td className="text-right">
+                                      {fmt("tireLoad", wheel.loadPerTire)}
+                                    </td>
+                                    <td
+                                      className={`text-right ${recIPColor(wheel.resultIPCompensated)}`}
+                                    >
+                                      {fmt("pressure", wheel.ipCompensated)}
+                                    </td>
+                                    <td
+                                      className={`text-right font-bold ${statusColor(wheel.resultLoad.status)}`}
+                                    >
+                                      {formatLoadResult(wheel.resultLoad)}
+                                    </td>
+                                    <td
+                                      className={`text-right font-bold ${statusColor(wheel.resultIP.status, "text-orange-600")}`}
+                                    >
+                                      {formatIPResult(wheel.resultIP, true)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -576,17 +3146,67 @@ export default function Page() {
       {positionResults.length > 0 && (
         <div className="bg-white shadow-lg rounded-xl p-3 sm:p-4">
           <h2 className="text-base sm:text-lg font-semibold mb-3">Summary</h2>
+          <p className="text-[11px] sm:text-xs text-gray-600 mb-2">
+            Rule profile: <b>{labelledRules.name}</b> · Load verdict:{" "}
+            <b>{LOAD_VERDICT_MODE_LABELS[verdictMode]}</b> (highlighted column)
+          </p>
+          {distributionWarning && (
+            <div className="p-2 mb-2 bg-red-50 rounded border border-red-300 text-xs sm:text-sm text-red-700 font-semibold">
+              ⛔ {distributionWarning}
+            </div>
+          )}
+          {wheelSplitWarnings.map((warning) => (
+            <div
+              key={warning}
+              className="p-2 mb-2 bg-red-50 rounded border border-red-300 text-xs sm:text-sm text-red-700 font-semibold"
+            >
+              ⛔ {warning}
+            </div>
+          ))}
 
           <div className="overflow-x-auto -mx-3 sm:mx-0 px-3 sm:px-0">
             <table className="w-full border text-[10px] sm:text-xs min-w-max">
               <thead className="bg-gray-100 sticky top-0">
                 <tr>
                   <th className="border p-1 sm:p-2">Pos</th>
+                  <th className="border p-1 sm:p-2">Tire Size</th>
                   <th className="border p-1 sm:p-2">Tires</th>
+                  <th className="border p-1 sm:p-2">Axle</th>
+                  <th className="border p-1 sm:p-2">Wheel Split</th>
+                  <th className="border p-1 sm:p-2">Fitment</th>
+                  <th className="border p-1 sm:p-2">
+                    Rating ({unitSymbol("tireLoad", units)})
+                  </th>
                   <th className="border p-1 sm:p-2">Dist.</th>
-                  <th className="border p-1 sm:p-2">Load/Tire</th>
-                  <th className="border p-1 sm:p-2">I/P (psi)</th>
-                  <th className="border p-1 sm:p-2">Result Load</th>
+                  <th className="border p-1 sm:p-2">
+                    Axle Load ({unitSymbol("vehicleLoad", units)})
+                  </th>
+                  <th className="border p-1 sm:p-2">
+                    Load/Tire ({unitSymbol("tireLoad", units)})
+                  </th>
+                  <th className="border p-1 sm:p-2">
+                    Limit Load ({unitSymbol("tireLoad", units)})
+                  </th>
+                  <th className="border p-1 sm:p-2">
+                    I/P ({unitSymbol("pressure", units)})
+                  </th>
+                  <th className="border p-1 sm:p-2">
+                    Rec. Cold I/P ({unitSymbol("pressure", units)})
+                  </th>
+                  <th
+                    className={`border p-1 sm:p-2 ${
+                      verdictMode === "speed" ? "bg-blue-100" : ""
+                    }`}
+                  >
+                    Result Load (Speed)
+                  </th>
+                  <th
+                    className={`border p-1 sm:p-2 ${
+                      verdictMode === "legacy" ? "bg-blue-100" : ""
+                    }`}
+                  >
+                    Result Load ({formatPercent(rules.legacyLoadLimit)})
+                  </th>
                   <th className="border p-1 sm:p-2">Result I/P</th>
                   <th className="border p-1 sm:p-2">Dmg Load</th>
                   <th className="border p-1 sm:p-2">Dmg I/P</th>
@@ -597,37 +3217,70 @@ export default function Page() {
                   <tr key={result.position.id} className="text-center">
                     <td className="border p-1 sm:p-2">{result.position.id}</td>
                     <td className="border p-1 sm:p-2">
-                      {result.position.tiresPerPosition === 2 ? "4" : "8"}
+                      {result.tire["TIRE Size"]}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {result.position.tiresPerPosition}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatAxle(result.position)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatWheelSplit(result.position)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatFitment(result.loadRating)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatValue("tireLoad", result.loadRating.rating, units)}
                     </td>
                     <td className="border p-1 sm:p-2">
                       {(result.position.loadDistribution * 100).toFixed(0)}%
                     </td>
                     <td className="border p-1 sm:p-2">
-                      {result.loadPerTire.toFixed(0)}
+                      {formatValue("vehicleLoad", result.loadPerPositionTon, units)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatValue("tireLoad", result.loadPerTire, units)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatValue("tireLoad", result.limitLoad, units)}
                     </td>
                     <td className="border p-1 sm:p-2">
-                      {result.ipByETRTO.toFixed(1)}
+                      {formatValue("pressure", result.ipByETRTO, units)}
+                    </td>
+                    <td
+                      className={`border p-1 sm:p-2 ${recIPColor(result.resultIPCompensated)}`}
+                    >
+                      {formatValue("pressure", result.ipCompensated, units)}
                     </td>
                     <td
                       className={`border p-1 sm:p-2 font-semibold ${
-                        result.resultLoad === "OK"
-                          ? "text-green-600"
-                          : "text-red-600"
-                      }`}
+                        statusColor(result.resultLoadSpeed.status)
+                      } ${verdictMode === "speed" ? "bg-blue-50" : ""}`}
+                    >
+                      {formatLoadResult(result.resultLoadSpeed)}
+                    </td>
+                    <td
+                      className={`border p-1 sm:p-2 font-semibold ${
+                        statusColor(result.resultLoadLegacy.status)
+                      } ${verdictMode === "legacy" ? "bg-blue-50" : ""}`}
                     >
-                      {result.resultLoad}
+                      {formatLoadResult(result.resultLoadLegacy)}
                     </td>
                     <td
                       className={`border p-1 sm:p-2 font-semibold ${
-                        result.resultIP === "OK"
-                          ? "text-green-600"
-                          : "text-orange-600"
+                        statusColor(result.resultIP.status, "text-orange-600")
                       }`}
                     >
-                      {result.resultIP === "OK" ? "OK" : "CONSULT"}
+                      {formatIPResult(result.resultIP, true)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatDamage(result.damage.load)}
+                    </td>
+                    <td className="border p-1 sm:p-2">
+                      {formatDamage(result.damage.ip)}
                     </td>
-                    <td className="border p-1 sm:p-2">{result.damage.load}</td>
-                    <td className="border p-1 sm:p-2">{result.damage.ip}</td>
                   </tr>
                 ))}
               </tbody>
@@ -635,6 +3288,329 @@ export default function Page() {
           </div>
         </div>
       )}
+
+      {/* Reverse Calculation */}
+      {solver && (
+        <div className="bg-white shadow-lg rounded-xl p-3 sm:p-4 mt-4 sm:mt-6">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+            <h2 className="text-base sm:text-lg font-semibold">
+              Reverse Calculation
+            </h2>
+            <div className="flex flex-wrap gap-2 items-center text-xs sm:text-sm">
+              <label className="flex items-center gap-1.5">
+                Keep to
+                <select
+                  className="border p-1 rounded touch-manipulation"
+                  value={solverBand}
+                  onChange={(e) => setSolverBand(e.target.value as SolverBand)}
+                >
+                  <option value="limit">the limits</option>
+                  <option value="caution">below the caution bands</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1.5">
+                I/P cap ({unitSymbol("pressure", units)})
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="none"
+                  className="border p-1 rounded w-20 touch-manipulation"
+                  value={ipCap === null ? "" : inputValue("pressure", ipCap)}
+                  onChange={(e) =>
+                    setIpCap(
+                      e.target.value === "" || +e.target.value <= 0
+                        ? null
+                        : fromInput("pressure", e.target.value)
+                    )
+                  }
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs sm:text-sm">
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-gray-600">
+                Max. total load at {fmt("speed", speed)}
+              </div>
+              {solver.load.max === null ? (
+                <div className="font-bold">No position carries load</div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-lg font-bold text-blue-700">
+                      {fmt("vehicleLoad", solver.load.max)}
+                    </span>
+                    <button
+                      onClick={applyMaxTotalLoad}
+                      className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation"
+                    >
+                      Use this load
+                    </button>
+                  </div>
+                  {solver.load.binding && (
+                    <div className="text-gray-600">
+                      {describeBinding(solver.load.binding)}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-gray-600">
+                Max. speed at {fmt("vehicleLoad", calcTotalLoad)}
+              </div>
+              {solver.speed.max === null ? (
+                <div className="font-bold text-red-600">
+                  Not possible at any speed in the speed table
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-lg font-bold text-blue-700">
+                    {fmt("speed", solver.speed.max)}
+                    {!solver.speed.binding && " (end of speed table)"}
+                  </span>
+                  <button
+                    onClick={applyMaxSpeed}
+                    className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded touch-manipulation"
+                  >
+                    Use this speed
+                  </button>
+                </div>
+              )}
+              {solver.speed.binding && (
+                <div className="text-gray-600">
+                  {describeBinding(solver.speed.binding)}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sensitivity */}
+      {positionResults.length > 0 && (
+        <div className="bg-white shadow-lg rounded-xl p-3 sm:p-4 mt-4 sm:mt-6">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+            <h2 className="text-base sm:text-lg font-semibold">
+              Sensitivity
+            </h2>
+            <div className="flex flex-wrap gap-2 items-center text-xs sm:text-sm">
+              <label className="flex items-center gap-1.5">
+                Sweep
+                <select
+                  className="border p-1 rounded touch-manipulation"
+                  value={sweepVariable}
+                  onChange={(e) => {
+                    setSweepVariable(e.target.value as SweepVariable);
+                    setSweepRange(null);
+                  }}
+                >
+                  {(
+                    Object.keys(SWEEP_VARIABLE_LABELS) as SweepVariable[]
+                  ).map((v) => (
+                    <option key={v} value={v}>
+                      {SWEEP_VARIABLE_LABELS[v]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(["from", "to"] as const).map((end) => {
+                const quantity =
+                  sweepVariable === "speed" ? "speed" : "vehicleLoad";
+                const range = sweepRange ?? defaultSweepRange;
+                return (
+                  <label key={end} className="flex items-center gap-1.5">
+                    {end === "from" ? "from" : "to"}
+                    <input
+                      type="number"
+                      min="0"
+                      className="border p-1 rounded w-20 touch-manipulation"
+                      value={inputValue(quantity, range[end])}
+                      onChange={(e) =>
+                        setSweepRange({
+                          ...range,
+                          [end]: fromInput(quantity, e.target.value),
+                        })
+                      }
+                    />
+                    {end === "to" && unitSymbol(quantity, units)}
+                  </label>
+                );
+              })}
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={sweepInPDF}
+                  onChange={(e) => setSweepInPDF(e.target.checked)}
+                />
+                Include in PDF
+              </label>
+            </div>
+          </div>
+
+          {sweep ? (
+            <>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                {(["load", "ip"] as SweepChartKind[]).map((kind) => (
+                  <div key={kind}>
+                    <div className="text-xs sm:text-sm font-semibold mb-1">
+                      {SWEEP_CHART_TITLES[kind]}
+                    </div>
+                    <SweepChart
+                      layout={layoutSweepChart(sweep, kind, 180, 100, units)}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-[10px] sm:text-xs text-gray-500">
+                Solid lines are the values, dashed lines their limits; circles
+                mark where a position goes over, and the grey line is the
+                current {SWEEP_VARIABLE_LABELS[sweepVariable].toLowerCase()}.
+              </p>
+            </>
+          ) : (
+            <p className="text-xs sm:text-sm text-red-600">
+              The end of the range must be above its start.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Scenario Comparison */}
+      <div className="bg-white shadow-lg rounded-xl p-3 sm:p-4 mt-4 sm:mt-6">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+          <h2 className="text-base sm:text-lg font-semibold">
+            Scenario Comparison
+          </h2>
+          <div className="flex flex-wrap gap-2 text-xs sm:text-sm">
+            <button
+              onClick={pinScenario}
+              disabled={!selectedTire}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1.5 rounded-lg font-medium touch-manipulation"
+            >
+              📌 Pin Current
+            </button>
+            {pinnedScenarios.length > 0 && (
+              <>
+                <button
+                  onClick={() => exportComparison("excel")}
+                  className="bg-green-500 hover:bg-green-600 text-white px-3 py-1.5 rounded-lg font-medium touch-manipulation"
+                >
+                  📥 Excel
+                </button>
+                <button
+                  onClick={() => exportComparison("pdf")}
+                  className="bg-red-500 hover:bg-red-600 text-white px-3 py-1.5 rounded-lg font-medium touch-manipulation"
+                >
+                  📄 PDF
+                </button>
+                <button
+                  onClick={() => setPinnedScenarios([])}
+                  className="bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded-lg font-medium touch-manipulation"
+                >
+                  Clear
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {pinnedScenarios.length === 0 ? (
+          <p className="text-xs sm:text-sm text-gray-600">
+            Pin the current inputs to compare them with other loads, speeds or
+            tires. The first pinned scenario is the baseline; the others show
+            how they differ from it.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse border text-[10px] sm:text-xs">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border p-1 sm:p-2" colSpan={2}></th>
+                  {pinnedScenarios.map((pinned, idx) => (
+                    <th
+                      key={pinned.id}
+                      className="border p-1 sm:p-2 align-top min-w-[8rem]"
+                    >
+                      <div>
+                        {pinned.name}
+                        {idx === 0 && (
+                          <span className="font-normal text-gray-500">
+                            {" "}
+                            (baseline)
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex justify-center gap-1 mt-1 font-normal">
+                        <button
+                          onClick={() =>
+                            data &&
+                            applyScenario(pinned.scenario, pinned.name, data)
+                          }
+                          className="bg-gray-200 hover:bg-gray-300 px-1.5 py-0.5 rounded touch-manipulation"
+                        >
+                          Load
+                        </button>
+                        {idx > 0 && (
+                          <button
+                            onClick={() => makeBaseline(pinned.id)}
+                            className="bg-gray-200 hover:bg-gray-300 px-1.5 py-0.5 rounded touch-manipulation"
+                          >
+                            Baseline
+                          </button>
+                        )}
+                        <button
+                          onClick={() => unpinScenario(pinned.id)}
+                          className="bg-gray-200 hover:bg-gray-300 px-1.5 py-0.5 rounded touch-manipulation"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparisonRows.map((row, rowIdx) => (
+                  <tr
+                    key={`${row.section}-${row.label}`}
+                    className="hover:bg-gray-50"
+                  >
+                    <td className="border p-1 sm:p-2 font-semibold whitespace-nowrap">
+                      {rowIdx > 0 &&
+                      comparisonRows[rowIdx - 1].section === row.section
+                        ? ""
+                        : row.section}
+                    </td>
+                    <td className="border p-1 sm:p-2 whitespace-nowrap">
+                      {row.label}
+                    </td>
+                    {row.cells.map((cell, idx) => (
+                      <td
+                        key={pinnedScenarios[idx].id}
+                        className={`border p-1 sm:p-2 text-right ${
+                          DELTA_BACKGROUNDS[cell.tone]
+                        } ${cell.status ? `font-bold ${statusColor(cell.status)}` : ""}`}
+                      >
+                        {cell.text}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-[10px] sm:text-xs text-gray-500">
+              <span className="bg-green-100 px-1">Green</span> is further from
+              the limits than the baseline,{" "}
+              <span className="bg-red-100 px-1">red</span> is closer to them
+              and <span className="bg-blue-50 px-1">blue</span> differs
+              without being better or worse.
+            </p>
+          </div>
+        )}
+      </div>
     </main>
   );
 }
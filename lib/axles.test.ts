@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatWheelSplit,
+  formatWheelSplitWarning,
+  hasWheelSplit,
+  parseWheelSplit,
+  positionWheels,
+  wheelLoadFactor,
+} from "./axles";
+
+describe("positionWheels", () => {
+  it("splits a single axle left and right", () => {
+    const wheels = positionWheels({ tiresPerPosition: 2, leftShare: 0.6 });
+    expect(wheels).toEqual([
+      { side: "left", place: null, tires: 1, factor: 1.2 },
+      { side: "right", place: null, tires: 1, factor: 0.8 },
+    ]);
+    expect(wheelLoadFactor({ tiresPerPosition: 2, leftShare: 0.6 })).toBe(1.2);
+  });
+
+  it("splits each side of a dual tandem over its inner and outer tires", () => {
+    const wheels = positionWheels({
+      tiresPerPosition: 8,
+      axleType: "dual",
+      leftShare: 0.5,
+      innerShare: 0.6,
+    });
+    expect(wheels.map((w) => [w.side, w.place, w.tires])).toEqual([
+      ["left", "outer", 2],
+      ["left", "inner", 2],
+      ["right", "inner", 2],
+      ["right", "outer", 2],
+    ]);
+    expect(wheels.map((w) => w.factor)).toEqual([
+      expect.closeTo(0.8),
+      expect.closeTo(1.2),
+      expect.closeTo(1.2),
+      expect.closeTo(0.8),
+    ]);
+  });
+
+  it("loads every wheel evenly without a split", () => {
+    const position = { tiresPerPosition: 4, axleType: "dual" as const };
+    expect(hasWheelSplit(position)).toBe(false);
+    expect(wheelLoadFactor(position)).toBe(1);
+  });
+});
+
+describe("formatWheelSplit and parseWheelSplit", () => {
+  it("round-trip a split", () => {
+    const position = {
+      tiresPerPosition: 4,
+      axleType: "dual" as const,
+      leftShare: 0.55,
+      innerShare: 0.6,
+    };
+    const text = formatWheelSplit(position);
+    expect(text).toBe("L55/R45, inner 60%");
+    expect(parseWheelSplit(text)).toEqual({
+      leftShare: 0.55,
+      innerShare: 0.6,
+    });
+    expect(parseWheelSplit("Even")).toEqual({});
+  });
+
+  it("rejects text that is not a split, or a share above 100%", () => {
+    expect(parseWheelSplit("left heavy")).toBeNull();
+    expect(parseWheelSplit("L150/R0")).toBeNull();
+    expect(parseWheelSplit("L60/R40, inner 120%")).toBeNull();
+  });
+});
+
+describe("formatWheelSplitWarning", () => {
+  it("names the tires a split leaves without load", () => {
+    expect(
+      formatWheelSplitWarning({
+        tiresPerPosition: 4,
+        axleType: "dual",
+        leftShare: 1,
+        innerShare: 1,
+      })
+    ).toBe(
+      "Wheel split L100/R0, inner 100% leaves the left outer, right inner and right outer tires without load; the other tires carry the whole position."
+    );
+  });
+
+  it("says nothing while every tire carries load or the axle is up", () => {
+    expect(
+      formatWheelSplitWarning({ tiresPerPosition: 2, leftShare: 0.7 })
+    ).toBeNull();
+    expect(
+      formatWheelSplitWarning({
+        tiresPerPosition: 2,
+        leftShare: 1,
+        liftable: true,
+        raised: true,
+      })
+    ).toBeNull();
+  });
+});
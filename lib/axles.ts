@@ -0,0 +1,261 @@
+import type { TireFitment } from "./calc";
+
+/**
+ * How the tires of each axle in a position are mounted:
+ * - "single": one tire at each end.
+ * - "dual": two tires side by side at each end.
+ * - "superSingle": one wide-base tire at each end, in place of a dual pair.
+ */
+export type AxleType = "single" | "dual" | "superSingle";
+
+export const AXLE_TYPE_LABELS: Record<AxleType, string> = {
+  single: "Single",
+  dual: "Dual",
+  superSingle: "Super single",
+};
+
+export const TIRES_PER_AXLE: Record<AxleType, number> = {
+  single: 2,
+  dual: 4,
+  superSingle: 2,
+};
+
+/** The axle group sizes offered in the UI: a single axle, a tandem and a tridem */
+export const AXLE_GROUP_SIZES = [1, 2, 3];
+
+/**
+ * The axle fields of a position. A position can be an axle group, e.g. a
+ * tridem, sharing its load evenly over all its tires. Positions saved before
+ * axle types existed only have a tire count.
+ */
+export type AxleConfig = {
+  tiresPerPosition: number;
+  axleType?: AxleType;
+  /** A lift axle, which can be raised off the road */
+  liftable?: boolean;
+  /** Whether a lift axle is raised; a raised axle carries no load */
+  raised?: boolean;
+  /** Share of the position's load on the left side, e.g. 0.6; even if missing */
+  leftShare?: number;
+  /** Share of each side's load on the inner tire of a dual pair; even if missing */
+  innerShare?: number;
+};
+
+/**
+ * The axle type of a position, inferred from the tire count for positions
+ * without one: multiples of four tires are duals, anything else singles.
+ * @param {AxleConfig} position - The position.
+ * @returns {AxleType} The axle type.
+ */
+export function positionAxleType(position: AxleConfig): AxleType {
+  if (position.axleType) return position.axleType;
+  return position.tiresPerPosition % 4 === 0 ? "dual" : "single";
+}
+
+/**
+ * The number of axles in a position's group, from its tires and axle type.
+ * @param {AxleConfig} position - The position.
+ * @returns {number} The number of axles, at least 1.
+ */
+export function positionAxleCount(position: AxleConfig): number {
+  const perAxle = TIRES_PER_AXLE[positionAxleType(position)];
+  return Math.max(1, Math.ceil(position.tiresPerPosition / perAxle));
+}
+
+/**
+ * The rating fitment of a position: only dual axles use the dual rating,
+ * super singles carry their single rating.
+ * @param {AxleConfig} position - The position.
+ * @returns {TireFitment} The fitment.
+ */
+export function positionFitment(position: AxleConfig): TireFitment {
+  return positionAxleType(position) === "dual" ? "dual" : "single";
+}
+
+/**
+ * Whether a position is a lift axle that is currently raised.
+ * @param {AxleConfig} position - The position.
+ * @returns {boolean} True if the position carries no load.
+ */
+export function isAxleRaised(position: AxleConfig): boolean {
+  return !!position.liftable && !!position.raised;
+}
+
+/**
+ * The name of an axle group by its number of axles.
+ * @param {number} axles - The number of axles.
+ * @returns {string} E.g. "Single axle", "Tandem" or "Tridem".
+ */
+export function axleGroupLabel(axles: number): string {
+  if (axles === 1) return "Single axle";
+  if (axles === 2) return "Tandem";
+  if (axles === 3) return "Tridem";
+  return `${axles}-axle group`;
+}
+
+/**
+ * Describes a position's axles, as shown in the UI and exports and read back
+ * by parseAxle.
+ * @param {AxleConfig} position - The position.
+ * @returns {string} E.g. "Single", "Dual tandem" or "Super single tridem, lift (raised)".
+ */
+export function formatAxle(position: AxleConfig): string {
+  const axles = positionAxleCount(position);
+  const group = axles > 1 ? ` ${axleGroupLabel(axles).toLowerCase()}` : "";
+  const lift = position.liftable
+    ? `, lift${position.raised ? " (raised)" : ""}`
+    : "";
+  return `${AXLE_TYPE_LABELS[positionAxleType(position)]}${group}${lift}`;
+}
+
+/**
+ * Reads the axle type and lift state back from the text of formatAxle.
+ * @param {string} text - The text, e.g. "Dual tandem, lift (raised)".
+ * @returns {Omit<AxleConfig, "tiresPerPosition"> | null} The axle fields, or null if no axle type is named.
+ */
+export function parseAxle(
+  text: string
+): Omit<AxleConfig, "tiresPerPosition"> | null {
+  // longest label first, so "Super single" is not read as "Single"
+  const axleType = (Object.keys(AXLE_TYPE_LABELS) as AxleType[])
+    .sort((a, b) => AXLE_TYPE_LABELS[b].length - AXLE_TYPE_LABELS[a].length)
+    .find((type) =>
+      text.toLowerCase().startsWith(AXLE_TYPE_LABELS[type].toLowerCase())
+    );
+  if (!axleType) return null;
+  const liftable = /\blift\b/i.test(text);
+  return {
+    axleType,
+    liftable: liftable || undefined,
+    raised: (liftable && /\braised\b/i.test(text)) || undefined,
+  };
+}
+
+export type WheelSide = "left" | "right";
+
+/** Where a tire sits in a dual pair; singles have no place */
+export type WheelPlace = "inner" | "outer";
+
+/**
+ * One wheel place of a position, e.g. the left outer tires. Every axle of a
+ * group splits its load the same way, so a place covers one tire per axle.
+ */
+export type WheelShare = {
+  side: WheelSide;
+  place: WheelPlace | null;
+  tires: number;
+  /** Load per tire at this place relative to an even split, e.g. 1.2 */
+  factor: number;
+};
+
+/**
+ * Splits a position's load over its wheel places by its left/right share and,
+ * for duals, its inner/outer share. The places run across the vehicle from
+ * the left outer tire to the right outer one.
+ * @param {AxleConfig} position - The position.
+ * @returns {WheelShare[]} Two places for singles, four for duals.
+ */
+export function positionWheels(position: AxleConfig): WheelShare[] {
+  const dual = positionAxleType(position) === "dual";
+  const places: (WheelPlace | null)[] = dual ? ["outer", "inner"] : [null];
+  const slots = places.length * 2;
+  const tires = position.tiresPerPosition / slots;
+  const left = position.leftShare ?? 0.5;
+  const inner = dual ? position.innerShare ?? 0.5 : 1;
+
+  const sideWheels = (side: WheelSide, sideShare: number) =>
+    places.map((place) => ({
+      side,
+      place,
+      tires,
+      factor:
+        sideShare * (place === "outer" ? 1 - inner : inner) * slots,
+    }));
+  return [
+    ...sideWheels("left", left),
+    ...sideWheels("right", 1 - left).reverse(),
+  ];
+}
+
+/**
+ * The load per tire of a position's heaviest wheel place relative to an even
+ * split. The heaviest wheel drives the position's verdict.
+ * @param {AxleConfig} position - The position.
+ * @returns {number} The factor, 1 for an even split.
+ */
+export function wheelLoadFactor(position: AxleConfig): number {
+  return Math.max(...positionWheels(position).map((w) => w.factor));
+}
+
+/**
+ * Whether a position's load is split unevenly over its wheels.
+ * @param {AxleConfig} position - The position.
+ * @returns {boolean} True if the left/right or, for duals, inner/outer share is not 50%.
+ */
+export function hasWheelSplit(position: AxleConfig): boolean {
+  return positionWheels(position).some((w) => Math.abs(w.factor - 1) > 1e-9);
+}
+
+/**
+ * The name of a wheel place.
+ * @param {Pick<WheelShare, "side" | "place">} wheel - The wheel place.
+ * @returns {string} E.g. "Left" or "Right inner".
+ */
+export function formatWheel(wheel: Pick<WheelShare, "side" | "place">): string {
+  const side = wheel.side === "left" ? "Left" : "Right";
+  return wheel.place ? `${side} ${wheel.place}` : side;
+}
+
+/**
+ * Describes a wheel split that leaves wheels without load, for display in the
+ * UI and exports. The other wheels then carry the whole position on their own.
+ * @param {AxleConfig} position - The position.
+ * @returns {string | null} The warning text, or null if every wheel carries load.
+ */
+export function formatWheelSplitWarning(position: AxleConfig): string | null {
+  if (isAxleRaised(position)) return null;
+  const unloaded = positionWheels(position).filter((w) => w.factor <= 0);
+  if (!unloaded.length) return null;
+  const names = unloaded.map((w) => formatWheel(w).toLowerCase());
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : names[0];
+  return `Wheel split ${formatWheelSplit(position)} leaves the ${list} tires without load; the other tires carry the whole position.`;
+}
+
+const sharePercent = (share: number) => +(share * 100).toFixed(1);
+
+/**
+ * Describes a position's wheel split, as shown in the UI and exports and read
+ * back by parseWheelSplit.
+ * @param {AxleConfig} position - The position.
+ * @returns {string} E.g. "Even", "L60/R40" or "L60/R40, inner 55%".
+ */
+export function formatWheelSplit(position: AxleConfig): string {
+  if (!hasWheelSplit(position)) return "Even";
+  const left = position.leftShare ?? 0.5;
+  const sides = `L${sharePercent(left)}/R${sharePercent(1 - left)}`;
+  return positionAxleType(position) === "dual"
+    ? `${sides}, inner ${sharePercent(position.innerShare ?? 0.5)}%`
+    : sides;
+}
+
+/**
+ * Reads a wheel split back from the text of formatWheelSplit.
+ * @param {string} text - The text, e.g. "L60/R40, inner 55%".
+ * @returns {Pick<AxleConfig, "leftShare" | "innerShare"> | null} The shares, empty for "Even", or null if the text is not a split or a share exceeds 100%.
+ */
+export function parseWheelSplit(
+  text: string
+): Pick<AxleConfig, "leftShare" | "innerShare"> | null {
+  if (/^even$/i.test(text.trim())) return {};
+  const sides = text.match(/^\s*L\s*(\d+(?:\.\d+)?)\s*\/\s*R\s*\d+(?:\.\d+)?/i);
+  if (!sides) return null;
+  const inner = text.match(/inner\s*(\d+(?:\.\d+)?)\s*%/i);
+  if (+sides[1] > 100 || (inner && +inner[1] > 100)) return null;
+  return {
+    leftShare: +sides[1] / 100,
+    innerShare: inner ? +inner[1] / 100 : undefined,
+  };
+}
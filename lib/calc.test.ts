@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import type { SolverPosition, SpeedRow, Tire } from "./calc";
+import {
+  calcIPByETRTO,
+  calcPosition,
+  calcResultLoadBySpeed,
+  getLimitLoad,
+  getLoadRating,
+  indexSpeedTable,
+  lookupSpeedRow,
+  solveMaxSpeed,
+  solveMaxTotalLoad,
+} from "./calc";
+import { RULE_PROFILES } from "./rules";
+
+const row = (
+  speed: number,
+  factors: Partial<SpeedRow>,
+  psi: number
+): SpeedRow => ({ speed, F: 1, G: 1, J: 1, K: 1, L: 1, M: 1, psi, ...factors });
+
+const SPEED_TABLE: SpeedRow[] = [
+  row(80, { F: 1, J: 1.04 }, 124),
+  row(30, { F: 1.25, J: 1.25 }, 140),
+  row(40, { F: 1.15, J: 1.15 }, 136),
+  row(85, { F: 0, J: 1.03 }, 124),
+];
+
+const TIRE: Tire = {
+  "TIRE Size": "11.00-20 16 EMSA",
+  "LOAD INDEX": 3000,
+  "STD I/P": 110,
+  "Speed symbol": "J",
+};
+
+const STANDARD = RULE_PROFILES[0];
+
+describe("lookupSpeedRow", () => {
+  const index = indexSpeedTable({ tires: [], speed_table: SPEED_TABLE });
+
+  it("interpolates factors and psi between the bracketing rows", () => {
+    const { row, lower, upper, outOfRange } = lookupSpeedRow(index, 34);
+    expect(lower.speed).toBe(30);
+    expect(upper.speed).toBe(40);
+    expect(outOfRange).toBeNull();
+    expect(row.J).toBeCloseTo(1.25 - 0.1 * 0.4);
+    expect(row.psi).toBeCloseTo(140 - 4 * 0.4);
+  });
+
+  it("returns an exact row as it is", () => {
+    const { row } = lookupSpeedRow(index, 40);
+    expect(row).toBe(SPEED_TABLE[2]);
+  });
+
+  it("keeps a factor of 0 instead of blending towards it", () => {
+    const { row } = lookupSpeedRow(index, 82);
+    expect(row.F).toBe(0);
+    expect(row.J).toBeCloseTo(1.036);
+  });
+
+  it("uses the nearest end row outside the table", () => {
+    expect(lookupSpeedRow(index, 20)).toMatchObject({
+      row: { speed: 30 },
+      outOfRange: "below",
+    });
+    expect(lookupSpeedRow(index, 90)).toMatchObject({
+      row: { speed: 85 },
+      outOfRange: "above",
+    });
+  });
+});
+
+describe("solveMaxTotalLoad", () => {
+  const { row } = lookupSpeedRow(
+    indexSpeedTable({ tires: [], speed_table: SPEED_TABLE }),
+    40
+  );
+  const positions: SolverPosition[] = [
+    { tire: TIRE, loadDistribution: 0.3, tiresPerPosition: 2 },
+    { tire: TIRE, loadDistribution: 0.7, tiresPerPosition: 6 },
+  ];
+
+  it("stops at the position that reaches its threshold first", () => {
+    const { max, binding } = solveMaxTotalLoad(positions, row, STANDARD);
+    expect(binding).toMatchObject({ positionIndex: 0 });
+    expect(max).not.toBeNull();
+
+    // at the solved load the binding position sits exactly on its limit
+    const loadsPerTire = positions.map(
+      (pos) => ((max! * pos.loadDistribution) / pos.tiresPerPosition) * 1000
+    );
+    const threshold =
+      binding!.check === "load"
+        ? loadsPerTire[0]
+        : calcIPByETRTO(loadsPerTire[0], 3000, 110);
+    expect(threshold).toBeCloseTo(binding!.threshold);
+    const limitLoad = getLimitLoad(3000, row, "J");
+    expect(calcResultLoadBySpeed(loadsPerTire[1], limitLoad).status).toBe("ok");
+  });
+
+  it("ignores positions without load", () => {
+    const { max, binding } = solveMaxTotalLoad(
+      [{ tire: TIRE, loadDistribution: 0, tiresPerPosition: 2 }],
+      row,
+      STANDARD
+    );
+    expect(max).toBeNull();
+    expect(binding).toBeNull();
+  });
+
+  it("stays below the caution band when asked to", () => {
+    const limit = solveMaxTotalLoad(positions, row, STANDARD).max!;
+    const caution = solveMaxTotalLoad(positions, row, STANDARD, "caution").max!;
+    expect(caution).toBeLessThan(limit);
+  });
+});
+
+describe("solveMaxSpeed", () => {
+  const index = indexSpeedTable({ tires: [], speed_table: SPEED_TABLE });
+  const positions: SolverPosition[] = [
+    { tire: TIRE, loadDistribution: 1, tiresPerPosition: 2 },
+  ];
+
+  it("finds the speed at which the speed-table limit is reached", () => {
+    // 6.3 t on two tires is 3,150 kg, 1.05 × the rating: between 40 and 80 km/h
+    const { max, binding } = solveMaxSpeed(index, positions, 6.3, STANDARD);
+    expect(binding).toMatchObject({ positionIndex: 0, check: "load" });
+    expect(max).toBeGreaterThan(40);
+    expect(max).toBeLessThan(80);
+    const { row } = lookupSpeedRow(index, max!);
+    expect(row.J * TIRE["LOAD INDEX"]).toBeCloseTo(3150, 3);
+  });
+
+  it("returns the top of the table when nothing binds", () => {
+    expect(solveMaxSpeed(index, positions, 1, STANDARD)).toEqual({
+      max: 85,
+      binding: null,
+    });
+  });
+
+  it("returns no speed when the load fails even at the lowest one", () => {
+    const { max, binding } = solveMaxSpeed(index, positions, 10, STANDARD);
+    expect(max).toBeNull();
+    expect(binding).not.toBeNull();
+  });
+});
+
+describe("getLoadRating", () => {
+  it("rates singles by their load index", () => {
+    expect(getLoadRating(TIRE, "single")).toMatchObject({
+      rating: 3000,
+      source: "single",
+    });
+  });
+
+  it("prefers the dual rating, then the derating, for duals", () => {
+    expect(
+      getLoadRating(
+        { ...TIRE, "DUAL LOAD": 2725, "DUAL DERATING": 0.8 },
+        "dual"
+      )
+    ).toMatchObject({ rating: 2725, source: "dual" });
+    expect(
+      getLoadRating({ ...TIRE, "DUAL DERATING": 0.88 }, "dual")
+    ).toMatchObject({ rating: 2640, factor: 0.88, source: "derated" });
+    expect(getLoadRating(TIRE, "dual")).toMatchObject({
+      rating: 3000,
+      source: "singleForDual",
+    });
+  });
+
+  it("checks a dual position against the derated rating", () => {
+    const tire = { ...TIRE, "DUAL DERATING": 0.88 };
+    const position = { loadDistribution: 1, tiresPerPosition: 4 };
+    const { loadRating, limitLoad } = calcPosition(
+      tire,
+      position,
+      10,
+      SPEED_TABLE[2],
+      124,
+      STANDARD,
+      "proportional"
+    );
+    expect(loadRating.source).toBe("derated");
+    expect(limitLoad).toBeCloseTo(2640 * 1.15);
+  });
+});
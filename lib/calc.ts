@@ -1,3 +1,7 @@
+import type { AxleType, WheelPlace, WheelSide } from "./axles";
+import { positionFitment, positionWheels, wheelLoadFactor } from "./axles";
+import type { RuleProfile } from "./rules";
+
 export type SpeedRow = {
   speed: number;
   F: number; G: number; J: number; K: number; L: number; M: number;
@@ -6,11 +10,18 @@ export type SpeedRow = {
 
 export type SpeedSymbol = "F" | "G" | "J" | "K" | "L" | "M";
 
+export const SPEED_SYMBOLS: SpeedSymbol[] = ["F", "G", "J", "K", "L", "M"];
+
 export type Tire = {
   "TIRE Size": string;
+  /** The single-fitment load rating in kg */
   "LOAD INDEX": number;
   "STD I/P": number;
   "Speed symbol": string;
+  /** The dual-fitment load rating in kg, where the manufacturer publishes one */
+  "DUAL LOAD"?: number;
+  /** The fraction of the single rating a dual fitment may carry, used when there is no dual rating, e.g. 0.88 */
+  "DUAL DERATING"?: number;
 };
 
 export type TireData = {
@@ -19,33 +30,283 @@ export type TireData = {
 };
 
 /**
- * Finds the appropriate speed table row for a given speed.
- * It returns the row with the highest speed that is less than or equal to the target speed.
+ * Which threshold decides the "Over Load" verdict:
+ * - "speed": the speed-derated limit from the speed table (see getLimitLoad).
+ * - "legacy": 115% of the load index, regardless of speed.
+ */
+export type LoadVerdictMode = "speed" | "legacy";
+
+export const LOAD_VERDICT_MODE_LABELS: Record<LoadVerdictMode, string> = {
+  speed: "Speed table limit",
+  legacy: "115% Load Index (legacy)",
+};
+
+/**
+ * How the speed table's "Kompensasi Tekanan" column adjusts the ETRTO pressure.
+ * Below the reference speed the table lets a tire carry more than its rating
+ * if it is inflated harder, so the compensation only applies to load above the
+ * rating, in proportion to how much of the table's extra load is used:
+ * - "none": use the raw ETRTO value.
+ * - "proportional": scale by the row's psi relative to the table's base psi.
+ * - "additive": add the row's psi above the table's base psi.
+ */
+export type PressureCompensationRule = "none" | "proportional" | "additive";
+
+export const PRESSURE_COMPENSATION_RULE_LABELS: Record<
+  PressureCompensationRule,
+  string
+> = {
+  none: "None (raw ETRTO)",
+  proportional: "Proportional (% of base)",
+  additive: "Additive (psi over base)",
+};
+
+/** The original template's limits, used when no rule profile says otherwise */
+export const DEFAULT_LEGACY_LOAD_LIMIT = 1.15;
+export const DEFAULT_IP_LIMIT = 1.1;
+
+/**
+ * Whether a checked value is within its threshold. "caution" means within it,
+ * but inside the caution band just below it.
+ */
+export type CheckStatus = "ok" | "caution" | "over";
+
+// Severity order, for picking the worst of several checks
+export const CHECK_STATUS_SEVERITY: Record<CheckStatus, number> = {
+  ok: 0,
+  caution: 1,
+  over: 2,
+};
+
+/**
+ * The outcome of checking a load or pressure against its threshold.
+ * Display text lives in lib/format.ts; code should decide on `status` and the numbers.
+ */
+export type CheckResult = {
+  status: CheckStatus;
+  /** The checked value: load per tire in kg, or pressure in psi */
+  value: number;
+  /** The threshold the value was compared with, in the same unit */
+  threshold: number;
+  /** value / threshold; above 1 means the threshold is exceeded */
+  ratio: number;
+};
+
+/**
+ * A damage estimate: a check whose exceedance is measured against the tire's
+ * rating (load index or STD I/P) rather than against the threshold.
+ */
+export type DamageResult = CheckResult & {
+  /** (value − rating) / rating, e.g. 0.23 for 23%; null within the threshold */
+  exceedance: number | null;
+};
+
+function checkResult(
+  value: number,
+  threshold: number,
+  over: boolean,
+  caution?: number
+): CheckResult {
+  // a threshold of 0 means nothing is allowed, so any value is infinitely over
+  const ratio = threshold > 0 ? value / threshold : value > 0 ? Infinity : 0;
+  return {
+    status: over
+      ? "over"
+      : caution !== undefined && ratio >= caution
+      ? "caution"
+      : "ok",
+    value,
+    threshold,
+    ratio,
+  };
+}
+
+function damageResult(
+  value: number,
+  rating: number,
+  threshold: number
+): DamageResult {
+  const over = value > threshold;
+  return {
+    ...checkResult(value, threshold, over),
+    exceedance: over ? (value - rating) / rating : null,
+  };
+}
+
+/**
+ * Picks the most severe of several checks; among equally severe checks, the
+ * one closest to (or furthest past) its threshold.
+ * @param {CheckResult[]} results - The checks, e.g. one per position.
+ * @returns {CheckResult | null} The worst check, or null if there are none.
+ */
+export function worstCheck(results: CheckResult[]): CheckResult | null {
+  return results.reduce<CheckResult | null>((worst, result) => {
+    if (!worst) return result;
+    const diff =
+      CHECK_STATUS_SEVERITY[result.status] - CHECK_STATUS_SEVERITY[worst.status];
+    return diff > 0 || (diff === 0 && result.ratio > worst.ratio)
+      ? result
+      : worst;
+  }, null);
+}
+
+/**
+ * The speed table sorted by ascending speed, built once per dataset so
+ * lookups do not re-sort on every recalculation.
+ */
+export type SpeedTableIndex = {
+  rows: SpeedRow[];
+};
+
+/**
+ * The result of a speed table lookup.
+ * `row` is interpolated between `lower` and `upper`; outside the table it is
+ * the nearest end row and `outOfRange` says on which side the speed fell.
+ */
+export type SpeedLookup = {
+  row: SpeedRow;
+  lower: SpeedRow;
+  upper: SpeedRow;
+  outOfRange: "below" | "above" | null;
+};
+
+/**
+ * Builds the sorted speed table index used by lookupSpeedRow.
  * @param {TireData} data - The entire tire data object, including the speed table.
+ * @returns {SpeedTableIndex} The indexed speed table.
+ */
+export function indexSpeedTable(data: TireData): SpeedTableIndex {
+  return { rows: [...data.speed_table].sort((a, b) => a.speed - b.speed) };
+}
+
+/**
+ * Looks up the speed table for a given speed, linearly interpolating load
+ * factors and psi between the two bracketing rows.
+ * A factor of 0 on either side means the speed symbol is not rated there, so
+ * the interpolated factor stays 0 instead of blending towards it.
+ * @param {SpeedTableIndex} index - The indexed speed table, from indexSpeedTable.
  * @param {number} speed - The target speed in km/h.
- * @returns {SpeedRow} The matching speed table row.
- */
-export function lookupSpeedRow(data: TireData, speed: number): SpeedRow {
-  const sorted = [...data.speed_table].sort((a, b) => a.speed - b.speed);
-  // find the closest row at or below the given speed
-  let row = sorted[0];
-  for (const r of sorted) {
-    if (r.speed <= speed) row = r;
+ * @returns {SpeedLookup} The interpolated row and the rows it was derived from.
+ */
+export function lookupSpeedRow(
+  index: SpeedTableIndex,
+  speed: number
+): SpeedLookup {
+  const { rows } = index;
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+
+  if (speed < first.speed) {
+    return { row: first, lower: first, upper: first, outOfRange: "below" };
   }
-  return row;
+  if (speed > last.speed) {
+    return { row: last, lower: last, upper: last, outOfRange: "above" };
+  }
+
+  // the last row at or below the given speed
+  let i = 0;
+  while (i < rows.length - 1 && rows[i + 1].speed <= speed) i++;
+  const lower = rows[i];
+  if (lower.speed === speed) {
+    return { row: lower, lower, upper: lower, outOfRange: null };
+  }
+
+  const upper = rows[i + 1];
+  const t = (speed - lower.speed) / (upper.speed - lower.speed);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const factor = (symbol: SpeedSymbol) =>
+    lower[symbol] && upper[symbol] ? lerp(lower[symbol], upper[symbol]) : 0;
+
+  const row: SpeedRow = {
+    speed,
+    F: factor("F"),
+    G: factor("G"),
+    J: factor("J"),
+    K: factor("K"),
+    L: factor("L"),
+    M: factor("M"),
+    psi: lerp(lower.psi, upper.psi),
+  };
+  return { row, lower, upper, outOfRange: null };
+}
+
+/**
+ * Checks whether a speed table row was used for a lookup, either as the exact
+ * match or as one of the two rows interpolated between.
+ * @param {SpeedLookup} lookup - The lookup result, from lookupSpeedRow.
+ * @param {SpeedRow} row - A row of the speed table.
+ * @returns {boolean} True if the row contributed to the lookup.
+ */
+export function isSpeedRowInUse(lookup: SpeedLookup, row: SpeedRow): boolean {
+  return row.speed === lookup.lower.speed || row.speed === lookup.upper.speed;
+}
+
+/**
+ * Describes an out-of-range speed lookup for display in the UI and exports.
+ * @param {SpeedLookup} lookup - The lookup result, from lookupSpeedRow.
+ * @param {number} speed - The speed that was looked up, in km/h.
+ * @param {(kmh: number) => string} [formatSpeed] - Formats a speed in km/h for display, e.g. in mph.
+ * @returns {string | null} The warning text, or null if the speed is within the table.
+ */
+export function formatSpeedRangeWarning(
+  lookup: SpeedLookup,
+  speed: number,
+  formatSpeed: (kmh: number) => string = (kmh) => `${kmh} km/h`
+): string | null {
+  if (!lookup.outOfRange) return null;
+  return `Speed ${formatSpeed(speed)} is ${lookup.outOfRange} the speed table range; the ${formatSpeed(lookup.row.speed)} row is used.`;
+}
+
+/**
+ * Finds a tire in the catalog by its "TIRE Size" designation.
+ * @param {TireData} data - The entire tire data object.
+ * @param {string} tireSize - The "TIRE Size" value to look for.
+ * @returns {Tire | null} The matching tire, or null if it is not in the catalog.
+ */
+export function findTire(data: TireData, tireSize: string): Tire | null {
+  return data.tires.find((t) => t["TIRE Size"] === tireSize) || null;
 }
 
 /**
  * Determines if the load per tire is within the acceptable limit.
- * The limit is 115% of the tire's specified load index.
+ * The limit is a fraction of the tire's specified load index, 115% by default.
  * @param {number} loadPerTire - The actual load on a single tire in kg.
  * @param {number} loadIndex - The tire's load index value in kg.
- * @returns {"OK" | "Over Load"} The load status.
+ * @param {number} [limit] - The allowed load as a fraction of the load index.
+ * @param {number} [caution] - The fraction of the limit from which the status is "caution"; no caution band if omitted.
+ * @returns {CheckResult} The load check against the limit.
  */
-export function calcResultLoad(loadPerTire: number, loadIndex: number) {
+export function calcResultLoad(
+  loadPerTire: number,
+  loadIndex: number,
+  limit: number = DEFAULT_LEGACY_LOAD_LIMIT,
+  caution?: number
+): CheckResult {
   // Result Load = IF(Load/Tire >= LOAD INDEX * 115%, "Over Load", "OK")
-  const maxAllowedLoad = loadIndex * 1.15;
-  return loadPerTire >= maxAllowedLoad ? "Over Load" : "OK";
+  const maxAllowedLoad = loadIndex * limit;
+  return checkResult(
+    loadPerTire,
+    maxAllowedLoad,
+    loadPerTire >= maxAllowedLoad,
+    caution
+  );
+}
+
+/**
+ * Determines if the load per tire is within the speed-derated limit.
+ * A limit of 0 (speed symbol not rated for the speed) is exceeded by any load.
+ * @param {number} loadPerTire - The actual load on a single tire in kg.
+ * @param {number} limitLoad - The speed-adjusted load limit in kg, from getLimitLoad.
+ * @param {number} [caution] - The fraction of the limit from which the status is "caution"; no caution band if omitted.
+ * @returns {CheckResult} The load check against the limit.
+ */
+export function calcResultLoadBySpeed(
+  loadPerTire: number,
+  limitLoad: number,
+  caution?: number
+): CheckResult {
+  // Result Load = IF(Load/Tire > LOAD INDEX * speed factor, "Over Load", "OK")
+  return checkResult(loadPerTire, limitLoad, loadPerTire > limitLoad, caution);
 }
 
 /**
@@ -64,6 +325,8 @@ export function getLimitLoad(
   return loadIndex * factor;
 }
 
+const ETRTO_IP_EXPONENT = 1.25;
+
 /**
  * Calculates the required inflation pressure (I/P) based on the ETRTO formula.
  * @param {number} loadPerTire - The actual load on a single tire in kg.
@@ -78,54 +341,527 @@ export function calcIPByETRTO(
 ): number {
   // I/P by ETRTO = ((Load/Tire / LOAD INDEX) ^ 1.25) × STD I/P
   const loadRatio = loadPerTire / loadIndex;
-  return Math.pow(loadRatio, 1.25) * stdIP;
+  return Math.pow(loadRatio, ETRTO_IP_EXPONENT) * stdIP;
+}
+
+/**
+ * Returns the base pressure of the speed table's "Kompensasi Tekanan" column,
+ * i.e. the pressure at the reference speed and above, where no compensation
+ * is needed (the lowest psi).
+ * @param {TireData} data - The entire tire data object, including the speed table.
+ * @returns {number} The base pressure in psi.
+ */
+export function getSpeedTableBasePsi(data: TireData): number {
+  return Math.min(...data.speed_table.map((r) => r.psi));
+}
+
+/**
+ * The share of the speed table's extra load a tire uses: 0 at or below its
+ * rating, 1 at the rating × the row's load factor. A tire loaded within its
+ * rating needs no speed compensation.
+ * @param {number} loadPerTire - The actual load on a single tire in kg.
+ * @param {number} rating - The tire's load rating in kg.
+ * @param {number} speedFactor - The speed row's load factor for the tire's speed symbol.
+ * @returns {number} The share, from 0 to 1.
+ */
+export function calcOverloadShare(
+  loadPerTire: number,
+  rating: number,
+  speedFactor: number
+): number {
+  if (loadPerTire <= rating) return 0;
+  const extraLoad = rating * (speedFactor - 1);
+  if (extraLoad <= 0) return 1;
+  return Math.min((loadPerTire - rating) / extraLoad, 1);
+}
+
+/**
+ * Calculates the recommended cold inflation pressure at the current speed by
+ * applying the speed table's pressure compensation to the ETRTO value. The
+ * compensation is scaled by the overload share, so a tire within its rating
+ * gets the ETRTO value at any speed, and the full "Kompensasi Tekanan" only
+ * applies at the speed table's load limit.
+ * @param {number} ipByETRTO - The calculated inflation pressure in psi.
+ * @param {number} rowPsi - The "Kompensasi Tekanan" psi of the speed row in use.
+ * @param {number} basePsi - The table's base psi at the reference speed, from getSpeedTableBasePsi.
+ * @param {PressureCompensationRule} rule - The compensation rule to apply.
+ * @param {number} overloadShare - The share of the extra load in use, from calcOverloadShare.
+ * @returns {number} The recommended cold inflation pressure in psi.
+ */
+export function calcCompensatedIP(
+  ipByETRTO: number,
+  rowPsi: number,
+  basePsi: number,
+  rule: PressureCompensationRule,
+  overloadShare: number
+): number {
+  switch (rule) {
+    case "proportional":
+      // Rec. I/P = I/P by ETRTO × (1 + (Kompensasi Tekanan / base psi − 1) × overload share)
+      return ipByETRTO * (1 + (rowPsi / basePsi - 1) * overloadShare);
+    case "additive":
+      // Rec. I/P = I/P by ETRTO + (Kompensasi Tekanan − base psi) × overload share
+      return ipByETRTO + (rowPsi - basePsi) * overloadShare;
+    default:
+      return ipByETRTO;
+  }
 }
 
 /**
  * Determines if the calculated inflation pressure is within the acceptable limit.
- * The limit is 110% of the tire's standard inflation pressure.
+ * The limit is a fraction of the tire's standard inflation pressure, 110% by default.
  * @param {number} ipByETRTO - The calculated inflation pressure.
  * @param {number} stdIP - The tire's standard inflation pressure.
- * @returns {"OK" | "CONSULT TO BS"} The inflation pressure status.
+ * @param {number} [limit] - The allowed pressure as a fraction of the standard pressure.
+ * @param {number} [caution] - The fraction of the limit from which the status is "caution"; no caution band if omitted.
+ * @returns {CheckResult} The pressure check against the limit.
  */
-export function calcResultIP(ipByETRTO: number, stdIP: number) {
+export function calcResultIP(
+  ipByETRTO: number,
+  stdIP: number,
+  limit: number = DEFAULT_IP_LIMIT,
+  caution?: number
+): CheckResult {
   // Result I/P = IF(I/P by ETRTO >= STD I/P * 110%, "CONSULT TO BS", "OK")
-  const maxAllowedIP = stdIP * 1.1;
-  return ipByETRTO >= maxAllowedIP ? "CONSULT TO BS" : "OK";
+  const maxAllowedIP = stdIP * limit;
+  return checkResult(
+    ipByETRTO,
+    maxAllowedIP,
+    ipByETRTO >= maxAllowedIP,
+    caution
+  );
 }
 
 /**
- * Calculates the percentage of potential damage due to excessive load or inflation pressure.
- * Returns "OK" if values are within limits, otherwise returns the percentage overload/overpressure.
+ * Calculates the potential damage due to excessive load or inflation pressure.
+ * Within the thresholds the exceedance is null; above them it is the overload
+ * or overpressure relative to the tire's rating.
  * @param {number} loadPerTire - The actual load on a single tire in kg.
  * @param {number} loadIndex - The tire's load index value in kg.
  * @param {number} ipByETRTO - The calculated inflation pressure in psi.
  * @param {number} stdIP - The tire's standard inflation pressure in psi.
- * @returns {{load: string, ip: string}} An object containing the damage status for load and I/P.
+ * @param {number} [maxLoad] - The load threshold in kg; defaults to 115% of the load index.
+ * @param {number} [maxIP] - The pressure threshold in psi; defaults to 110% of the standard pressure.
+ * @returns {{load: DamageResult, ip: DamageResult}} The damage estimates for load and I/P.
  */
 export function calcDamage(
   loadPerTire: number,
   loadIndex: number,
   ipByETRTO: number,
-  stdIP: number
+  stdIP: number,
+  maxLoad: number = loadIndex * DEFAULT_LEGACY_LOAD_LIMIT,
+  maxIP: number = stdIP * DEFAULT_IP_LIMIT
+): { load: DamageResult; ip: DamageResult } {
+  return {
+    // Damage by Load = IF(Load/Tire <= LOAD INDEX * 115%, "OK", (Load/Tire - LOAD INDEX) / LOAD INDEX)
+    load: damageResult(loadPerTire, loadIndex, maxLoad),
+    // Damage by I/P = IF(I/P by ETRTO <= STD I/P * 110%, "OK", (I/P by ETRTO - STD I/P) / STD I/P)
+    ip: damageResult(ipByETRTO, stdIP, maxIP),
+  };
+}
+
+/**
+ * How the tires of a position are mounted. A dual assembly has two tires side
+ * by side at each end of the axle, which ETRTO rates below singles since the
+ * pair rarely shares the load evenly.
+ */
+export type TireFitment = "single" | "dual";
+
+export const TIRE_FITMENT_LABELS: Record<TireFitment, string> = {
+  single: "Single",
+  dual: "Dual",
+};
+
+/**
+ * The load rating a tire carries in a fitment, and where it came from:
+ * - "single": the load index, for a single fitment.
+ * - "dual": the tire's dual load rating.
+ * - "derated": the load index × the tire's dual derating factor.
+ * - "singleForDual": the load index, for a dual fitment of a tire with neither.
+ */
+export type LoadRating = {
+  fitment: TireFitment;
+  /** The rating in kg per tire */
+  rating: number;
+  /** The rating as a fraction of the load index */
+  factor: number;
+  source: "single" | "dual" | "derated" | "singleForDual";
+};
+
+/**
+ * Picks the load rating of a tire for a fitment. Dual fitments use the dual
+ * rating, else the single rating derated by the dual factor, else the single
+ * rating unchanged.
+ * @param {Tire} tire - The tire.
+ * @param {TireFitment} fitment - How the tire is mounted.
+ * @returns {LoadRating} The rating in kg and its source.
+ */
+export function getLoadRating(tire: Tire, fitment: TireFitment): LoadRating {
+  const loadIndex = tire["LOAD INDEX"];
+  if (fitment === "single")
+    return { fitment, rating: loadIndex, factor: 1, source: "single" };
+  if (tire["DUAL LOAD"])
+    return {
+      fitment,
+      rating: tire["DUAL LOAD"],
+      factor: tire["DUAL LOAD"] / loadIndex,
+      source: "dual",
+    };
+  if (tire["DUAL DERATING"])
+    return {
+      fitment,
+      rating: loadIndex * tire["DUAL DERATING"],
+      factor: tire["DUAL DERATING"],
+      source: "derated",
+    };
+  return { fitment, rating: loadIndex, factor: 1, source: "singleForDual" };
+}
+
+/** How a position shares the vehicle load */
+export type PositionLoad = {
+  /** Share of the total load, e.g. 0.18 */
+  loadDistribution: number;
+  /** All tires of the position; an axle group shares its load over all of them */
+  tiresPerPosition: number;
+  /** Inferred from the tire count if missing, see positionAxleType */
+  axleType?: AxleType;
+  /** Share of the load on the left side; even if missing */
+  leftShare?: number;
+  /** Share of each side's load on the inner dual tire; even if missing */
+  innerShare?: number;
+};
+
+/** The load, pressures and checks of one wheel place of a position */
+export type WheelCalc = {
+  side: WheelSide;
+  place: WheelPlace | null;
+  /** The tires at this place, one per axle of the group */
+  tires: number;
+  /** Load per tire in kg */
+  loadPerTire: number;
+  ipByETRTO: number;
+  ipCompensated: number;
+  resultLoad: CheckResult;
+  resultIP: CheckResult;
+  resultIPCompensated: CheckResult;
+};
+
+/** The loads, pressures and checks of one position */
+export type PositionCalc = {
+  tire: Tire;
+  /** The rating the checks used, for the position's fitment */
+  loadRating: LoadRating;
+  /** The speed table row the limits were taken from */
+  row: SpeedRow;
+  loadPerPositionTon: number;
+  /** Load per tire in kg, of the heaviest wheel */
+  loadPerTire: number;
+  /** The speed-table load limit in kg, with the rule profile applied */
+  limitLoad: number;
+  ipByETRTO: number;
+  /** The recommended cold I/P at the speed */
+  ipCompensated: number;
+  /** The verdict: resultLoadSpeed or resultLoadLegacy, as the rule profile says */
+  resultLoad: CheckResult;
+  resultLoadSpeed: CheckResult;
+  resultLoadLegacy: CheckResult;
+  resultIP: CheckResult;
+  /** The recommended cold I/P against the same limit as resultIP */
+  resultIPCompensated: CheckResult;
+  damage: { load: DamageResult; ip: DamageResult };
+  /** Every wheel place, left to right; all equal unless the load is split unevenly */
+  wheels: WheelCalc[];
+};
+
+/**
+ * Runs the full calculation for one position: load per tire, limits,
+ * ETRTO and compensated I/P, the load and I/P checks and the damage estimates.
+ * Loads are rated with the tire's rating for the position's fitment. Each
+ * wheel place is checked with its share of the load, and the position's
+ * values and verdicts are those of the heaviest wheel.
+ * @param {Tire} tire - The tire fitted to the position.
+ * @param {PositionLoad} position - The position's load share and tire count.
+ * @param {number} totalLoad - The total vehicle load in tons.
+ * @param {SpeedRow} row - The speed table row at the vehicle's speed, from lookupSpeedRow.
+ * @param {number} basePsi - The speed table's base pressure, from getSpeedTableBasePsi.
+ * @param {RuleProfile} rules - The thresholds to check against.
+ * @param {PressureCompensationRule} compensationRule - How the cold I/P is compensated for speed.
+ * @returns {PositionCalc} The position's loads, pressures and checks.
+ */
+export function calcPosition(
+  tire: Tire,
+  position: PositionLoad,
+  totalLoad: number,
+  row: SpeedRow,
+  basePsi: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule
+): PositionCalc {
+  const speedSymbol = tire["Speed symbol"] as SpeedSymbol;
+  const loadPerPositionTon = totalLoad * position.loadDistribution;
+  const evenLoadPerTire =
+    (loadPerPositionTon / position.tiresPerPosition) * 1000;
+  const loadPerTire = evenLoadPerTire * wheelLoadFactor(position);
+  const loadRating = getLoadRating(tire, positionFitment(position));
+  const { rating } = loadRating;
+
+  const limitLoad =
+    getLimitLoad(rating, row, speedSymbol) * rules.speedLoadLimit;
+  const legacyLimitLoad = rating * rules.legacyLoadLimit;
+  const checkTire = (load: number) => {
+    const ipByETRTO = calcIPByETRTO(load, rating, tire["STD I/P"]);
+    const ipCompensated = calcCompensatedIP(
+      ipByETRTO,
+      row.psi,
+      basePsi,
+      compensationRule,
+      calcOverloadShare(load, rating, row[speedSymbol])
+    );
+    const resultLoadSpeed = calcResultLoadBySpeed(
+      load,
+      limitLoad,
+      rules.loadCaution
+    );
+    const resultLoadLegacy = calcResultLoad(
+      load,
+      rating,
+      rules.legacyLoadLimit,
+      rules.loadCaution
+    );
+    return {
+      ipByETRTO,
+      ipCompensated,
+      resultLoad:
+        rules.verdictMode === "speed" ? resultLoadSpeed : resultLoadLegacy,
+      resultLoadSpeed,
+      resultLoadLegacy,
+      resultIP: calcResultIP(
+        ipByETRTO,
+        tire["STD I/P"],
+        rules.ipLimit,
+        rules.ipCaution
+      ),
+      resultIPCompensated: calcResultIP(
+        ipCompensated,
+        tire["STD I/P"],
+        rules.ipLimit,
+        rules.ipCaution
+      ),
+    };
+  };
+  // every check rises with the load, so the heaviest wheel is the worst
+  const worst = checkTire(loadPerTire);
+  const { ipByETRTO } = worst;
+  const damage = calcDamage(
+    loadPerTire,
+    rating,
+    ipByETRTO,
+    tire["STD I/P"],
+    rules.verdictMode === "speed" ? limitLoad : legacyLimitLoad,
+    tire["STD I/P"] * rules.ipLimit
+  );
+
+  return {
+    tire,
+    loadRating,
+    row,
+    loadPerPositionTon,
+    loadPerTire,
+    limitLoad,
+    ...worst,
+    damage,
+    wheels: positionWheels(position).map(({ side, place, tires, factor }) => {
+      const load = evenLoadPerTire * factor;
+      const checks = checkTire(load);
+      return {
+        side,
+        place,
+        tires,
+        loadPerTire: load,
+        ipByETRTO: checks.ipByETRTO,
+        ipCompensated: checks.ipCompensated,
+        resultLoad: checks.resultLoad,
+        resultIP: checks.resultIP,
+        resultIPCompensated: checks.resultIPCompensated,
+      };
+    }),
+  };
+}
+
+/** A position as the solvers see it: its tire and the share of the load it carries */
+export type SolverPosition = PositionLoad & { tire: Tire };
+
+/**
+ * Which thresholds a solver keeps to: the limits themselves, or the start of
+ * the caution bands below them.
+ */
+export type SolverBand = "limit" | "caution";
+
+/** The check that stops a solved value from going higher */
+export type BindingLimit = {
+  /** Index of the position in the solver's input */
+  positionIndex: number;
+  check: "load" | "ip";
+  /** The threshold reached: load per tire in kg, or I/P by ETRTO in psi */
+  threshold: number;
+};
+
+/**
+ * The outcome of a solver.
+ * - max: the largest value that keeps every position within its thresholds,
+ *   or null if even the smallest value exceeds one.
+ * - binding: the threshold reached at `max`, or already exceeded when `max`
+ *   is null. It is null when nothing limits the value: no position carries
+ *   load, or the speed table ends first.
+ */
+export type SolverResult = {
+  max: number | null;
+  binding: BindingLimit | null;
+};
+
+// Load per tire in kg at which a position reaches its load or I/P threshold
+function positionLoadThresholds(
+  pos: SolverPosition,
+  row: SpeedRow,
+  rules: RuleProfile,
+  band: SolverBand,
+  ipCap?: number
 ) {
-  // Damage by Load = IF(Load/Tire <= LOAD INDEX * 115%, "OK", (Load/Tire - LOAD INDEX) / LOAD INDEX)
-  let damageByLoad: string;
-  if (loadPerTire <= loadIndex * 1.15) {
-    damageByLoad = "OK";
-  } else {
-    const percentage = ((loadPerTire - loadIndex) / loadIndex) * 100;
-    damageByLoad = percentage.toFixed(0) + "%";
-  }
+  const loadIndex = getLoadRating(pos.tire, positionFitment(pos)).rating;
+  const stdIP = pos.tire["STD I/P"];
+  const loadBand = band === "caution" ? rules.loadCaution : 1;
+  const ipBand = band === "caution" ? rules.ipCaution : 1;
 
-  // Damage by I/P = IF(I/P by ETRTO <= STD I/P * 110%, "OK", (I/P by ETRTO - STD I/P) / STD I/P)
-  let damageByIP: string;
-  if (ipByETRTO <= stdIP * 1.10) {
-    damageByIP = "OK";
-  } else {
-    const percentage = ((ipByETRTO - stdIP) / stdIP) * 100;
-    damageByIP = percentage.toFixed(0) + "%";
-  }
+  const loadLimit =
+    (rules.verdictMode === "speed"
+      ? getLimitLoad(loadIndex, row, pos.tire["Speed symbol"] as SpeedSymbol) *
+        rules.speedLoadLimit
+      : loadIndex * rules.legacyLoadLimit) * loadBand;
+  const ipLimit = Math.min(
+    stdIP * rules.ipLimit * ipBand,
+    ipCap ?? Infinity
+  );
+  // the ETRTO formula inverted: Load/Tire = rating × (I/P / STD I/P) ^ (1 / 1.25)
+  const ipLoad = loadIndex * Math.pow(ipLimit / stdIP, 1 / ETRTO_IP_EXPONENT);
+  return { loadLimit, ipLimit, ipLoad };
+}
+
+/**
+ * Finds the largest total load the vehicle can carry at the given speed row
+ * while every position stays within its load and I/P thresholds.
+ * @param {SolverPosition[]} positions - The positions with their tires and load shares.
+ * @param {SpeedRow} row - The speed table row at the vehicle's speed, from lookupSpeedRow.
+ * @param {RuleProfile} rules - The thresholds to keep to.
+ * @param {SolverBand} [band] - Keep to the limits, or stay out of the caution bands.
+ * @param {number} [ipCap] - An optional ceiling for the I/P by ETRTO in psi, e.g. the highest pressure the site can inflate to.
+ * @returns {SolverResult} The largest total load in tons, and the binding position and check.
+ */
+export function solveMaxTotalLoad(
+  positions: SolverPosition[],
+  row: SpeedRow,
+  rules: RuleProfile,
+  band: SolverBand = "limit",
+  ipCap?: number
+): SolverResult {
+  let result: SolverResult = { max: null, binding: null };
+  positions.forEach((pos, positionIndex) => {
+    // a position without load cannot limit the total
+    if (pos.loadDistribution <= 0) return;
+    const { loadLimit, ipLimit, ipLoad } = positionLoadThresholds(
+      pos,
+      row,
+      rules,
+      band,
+      ipCap
+    );
+    const byLoad = loadLimit <= ipLoad;
+    const maxLoadPerTire = byLoad ? loadLimit : ipLoad;
+    // Load/Tire = Total Load × distribution / tires × 1000 × the heaviest wheel's factor
+    const max =
+      (maxLoadPerTire * pos.tiresPerPosition) /
+      pos.loadDistribution /
+      wheelLoadFactor(pos) /
+      1000;
+    if (result.max === null || max < result.max) {
+      result = {
+        max,
+        binding: {
+          positionIndex,
+          check: byLoad ? "load" : "ip",
+          threshold: byLoad ? loadLimit : ipLimit,
+        },
+      };
+    }
+  });
+  return result;
+}
 
-  return { load: damageByLoad, ip: damageByIP };
+/**
+ * Finds the highest speed in the speed table at which the vehicle can carry
+ * the given total load while every position stays within its thresholds.
+ * Speed only changes the speed-table load limit, so an I/P or legacy load
+ * limit that is exceeded cannot be solved by driving slower.
+ * @param {SpeedTableIndex} index - The indexed speed table, from indexSpeedTable.
+ * @param {SolverPosition[]} positions - The positions with their tires and load shares.
+ * @param {number} totalLoad - The total vehicle load in tons.
+ * @param {RuleProfile} rules - The thresholds to keep to.
+ * @param {SolverBand} [band] - Keep to the limits, or stay out of the caution bands.
+ * @returns {SolverResult} The highest speed in km/h, and the binding position and check.
+ */
+export function solveMaxSpeed(
+  index: SpeedTableIndex,
+  positions: SolverPosition[],
+  totalLoad: number,
+  rules: RuleProfile,
+  band: SolverBand = "limit"
+): SolverResult {
+  const loadsPerTire = positions.map(
+    (pos) =>
+      ((totalLoad * pos.loadDistribution) / pos.tiresPerPosition) *
+      1000 *
+      wheelLoadFactor(pos)
+  );
+  // the first position over a threshold at the given speed, if any
+  const bindingAt = (speed: number): BindingLimit | null => {
+    const { row } = lookupSpeedRow(index, speed);
+    for (let i = 0; i < positions.length; i++) {
+      const { loadLimit, ipLimit, ipLoad } = positionLoadThresholds(
+        positions[i],
+        row,
+        rules,
+        band
+      );
+      // same comparisons as calcResultLoadBySpeed, calcResultLoad and calcResultIP
+      const overIP = loadsPerTire[i] >= ipLoad;
+      const overLoad =
+        rules.verdictMode === "speed"
+          ? loadsPerTire[i] > loadLimit
+          : loadsPerTire[i] >= loadLimit;
+      if (overIP || overLoad) {
+        return {
+          positionIndex: i,
+          check: overIP ? "ip" : "load",
+          threshold: overIP ? ipLimit : loadLimit,
+        };
+      }
+    }
+    return null;
+  };
+
+  const { rows } = index;
+  const first = bindingAt(rows[0].speed);
+  if (first) return { max: null, binding: first };
+
+  const failing = rows.findIndex((r) => bindingAt(r.speed));
+  if (failing < 0) return { max: rows[rows.length - 1].speed, binding: null };
+
+  // interpolated limits fall between the rows, so bisect the failing segment
+  let lo = rows[failing - 1].speed;
+  let hi = rows[failing].speed;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (bindingAt(mid)) hi = mid;
+    else lo = mid;
+  }
+  return { max: lo, binding: bindingAt(hi) };
 }
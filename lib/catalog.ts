@@ -0,0 +1,206 @@
+import type { SpeedRow, Tire } from "./calc";
+import { SPEED_SYMBOLS } from "./calc";
+import { validateSpeedRow, validateTire } from "./tireData";
+
+/**
+ * Local changes to the shipped tire catalog, stored in the browser.
+ * - tires: user-defined records, either new sizes or edits of shipped ones.
+ * - retired: sizes hidden from the catalog; their records are kept so a
+ *   retired tire can be restored.
+ * - speedTable: an imported speed table replacing the shipped one, or null.
+ */
+export type CatalogOverrides = {
+  tires: Tire[];
+  retired: string[];
+  speedTable: SpeedRow[] | null;
+};
+
+const CATALOG_OVERRIDES_KEY = "load-ip-calc.catalogOverrides";
+
+const EMPTY_OVERRIDES: CatalogOverrides = {
+  tires: [],
+  retired: [],
+  speedTable: null,
+};
+
+/**
+ * Reads the catalog overrides from the browser's localStorage.
+ * Missing or unreadable storage yields no overrides.
+ * @returns {CatalogOverrides} The stored overrides.
+ */
+export function loadCatalogOverrides(): CatalogOverrides {
+  if (typeof window === "undefined") return EMPTY_OVERRIDES;
+  try {
+    const raw = window.localStorage.getItem(CATALOG_OVERRIDES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    // records that no longer validate are dropped rather than computed with
+    const isValid =
+      (validate: (v: unknown, path: string, errors: string[]) => void) =>
+      (value: unknown) => {
+        const errors: string[] = [];
+        validate(value, "", errors);
+        return !errors.length;
+      };
+    const speedTable: unknown[] | null = Array.isArray(parsed?.speedTable)
+      ? parsed.speedTable
+      : null;
+    return {
+      tires: Array.isArray(parsed?.tires)
+        ? parsed.tires.filter(isValid(validateTire))
+        : [],
+      retired: Array.isArray(parsed?.retired)
+        ? parsed.retired.filter((size: unknown) => typeof size === "string")
+        : [],
+      speedTable:
+        speedTable?.length && speedTable.every(isValid(validateSpeedRow))
+          ? (speedTable as SpeedRow[])
+          : null,
+    };
+  } catch {
+    return EMPTY_OVERRIDES;
+  }
+}
+
+function storeCatalogOverrides(overrides: CatalogOverrides) {
+  window.localStorage.setItem(CATALOG_OVERRIDES_KEY, JSON.stringify(overrides));
+}
+
+/**
+ * Applies the overrides to a catalog: user-defined records replace or extend
+ * the records with the same size, and retired sizes are removed. Retirements
+ * that would leave the catalog empty are not applied.
+ * @param {Tire[]} tires - The catalog to apply the overrides to.
+ * @param {CatalogOverrides} overrides - The local overrides.
+ * @returns {Tire[]} The resulting catalog, sorted by size.
+ */
+export function applyCatalogOverrides(
+  tires: Tire[],
+  overrides: CatalogOverrides
+): Tire[] {
+  const bySize = new Map(tires.map((t) => [t["TIRE Size"], t]));
+  overrides.tires.forEach((t) => bySize.set(t["TIRE Size"], t));
+  if ([...bySize.keys()].some((size) => !overrides.retired.includes(size)))
+    overrides.retired.forEach((size) => bySize.delete(size));
+  return [...bySize.values()].sort((a, b) =>
+    a["TIRE Size"].localeCompare(b["TIRE Size"])
+  );
+}
+
+/**
+ * Checks a tire record entered in the catalog editor.
+ * @param {Tire} tire - The record to check.
+ * @param {string[]} takenSizes - Sizes already in use; pass none when editing an existing record.
+ * @returns {string[]} Every problem found; empty if the record is valid.
+ */
+export function validateTireRecord(tire: Tire, takenSizes: string[]): string[] {
+  const errors: string[] = [];
+  const size = tire["TIRE Size"].trim();
+  if (!size) errors.push("Tire size / pattern is required");
+  else if (takenSizes.includes(size))
+    errors.push(`Tire "${size}" is already in the catalog`);
+  if (!Number.isFinite(tire["LOAD INDEX"]) || tire["LOAD INDEX"] <= 0)
+    errors.push("Load index must be a positive number");
+  if (!Number.isFinite(tire["STD I/P"]) || tire["STD I/P"] <= 0)
+    errors.push("STD I/P must be a positive number");
+  if (!(SPEED_SYMBOLS as string[]).includes(tire["Speed symbol"]))
+    errors.push(`Speed symbol must be one of ${SPEED_SYMBOLS.join(", ")}`);
+  const dualLoad = tire["DUAL LOAD"];
+  if (dualLoad !== undefined && !(Number.isFinite(dualLoad) && dualLoad > 0))
+    errors.push("Dual load must be a positive number, or left empty");
+  const derating = tire["DUAL DERATING"];
+  if (
+    derating !== undefined &&
+    !(Number.isFinite(derating) && derating > 0 && derating <= 1)
+  )
+    errors.push("Dual derating must be above 0% and at most 100%, or left empty");
+  return errors;
+}
+
+/**
+ * Saves a user-defined tire record, replacing any override with the same size.
+ * A retired record with that size is restored.
+ * @param {Tire} tire - The record to save.
+ * @returns {CatalogOverrides} The updated overrides.
+ */
+export function saveTireOverride(tire: Tire): CatalogOverrides {
+  return saveTireOverrides([tire]);
+}
+
+/**
+ * Saves several user-defined tire records at once, e.g. from a catalog import.
+ * @param {Tire[]} tires - The records to save.
+ * @returns {CatalogOverrides} The updated overrides.
+ */
+export function saveTireOverrides(tires: Tire[]): CatalogOverrides {
+  const current = loadCatalogOverrides();
+  const records = tires.map((t) => ({
+    ...t,
+    "TIRE Size": t["TIRE Size"].trim(),
+  }));
+  const sizes = new Set(records.map((t) => t["TIRE Size"]));
+  const overrides = {
+    ...current,
+    tires: [
+      ...current.tires.filter((t) => !sizes.has(t["TIRE Size"])),
+      ...records,
+    ],
+    retired: current.retired.filter((size) => !sizes.has(size)),
+  };
+  storeCatalogOverrides(overrides);
+  return overrides;
+}
+
+/**
+ * Replaces the shipped speed table, or goes back to it.
+ * @param {SpeedRow[] | null} rows - The speed table to use, or null for the shipped one.
+ * @returns {CatalogOverrides} The updated overrides.
+ */
+export function saveSpeedTableOverride(
+  rows: SpeedRow[] | null
+): CatalogOverrides {
+  const overrides = { ...loadCatalogOverrides(), speedTable: rows };
+  storeCatalogOverrides(overrides);
+  return overrides;
+}
+
+/**
+ * Removes the user-defined record for a size, so a shipped tire returns to
+ * its shipped values and a new tire is deleted.
+ * @param {string} size - The tire size.
+ * @returns {CatalogOverrides} The updated overrides.
+ */
+export function removeTireOverride(size: string): CatalogOverrides {
+  const current = loadCatalogOverrides();
+  const overrides = {
+    ...current,
+    tires: current.tires.filter((t) => t["TIRE Size"] !== size),
+    retired: current.retired.filter((s) => s !== size),
+  };
+  storeCatalogOverrides(overrides);
+  return overrides;
+}
+
+/**
+ * Hides or restores a tire in the catalog. The last tire in the catalog
+ * cannot be retired; the overrides are then returned unchanged.
+ * @param {string} size - The tire size.
+ * @param {boolean} retired - True to retire the tire, false to restore it.
+ * @param {Tire[]} catalog - The catalog as currently shown.
+ * @returns {CatalogOverrides} The updated overrides.
+ */
+export function setTireRetired(
+  size: string,
+  retired: boolean,
+  catalog: Tire[]
+): CatalogOverrides {
+  const current = loadCatalogOverrides();
+  if (retired && !catalog.some((t) => t["TIRE Size"] !== size)) return current;
+  const overrides = {
+    ...current,
+    retired: retired
+      ? [...current.retired.filter((s) => s !== size), size]
+      : current.retired.filter((s) => s !== size),
+  };
+  storeCatalogOverrides(overrides);
+  return overrides;
+}
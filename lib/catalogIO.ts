@@ -0,0 +1,294 @@
+import * as XLSX from "xlsx";
+import type { SpeedRow, Tire, TireData } from "./calc";
+import { SPEED_SYMBOLS } from "./calc";
+import { validateTireRecord } from "./catalog";
+
+/** Which part of TireData a table holds */
+export type CatalogKind = "tires" | "speedTable";
+
+export const CATALOG_KIND_LABELS: Record<CatalogKind, string> = {
+  tires: "Tire list",
+  speedTable: "Speed table",
+};
+
+/** The fields of each kind, with the column headers used on export */
+export const CATALOG_FIELDS: Record<CatalogKind, string[]> = {
+  tires: [
+    "TIRE Size",
+    "LOAD INDEX",
+    "STD I/P",
+    "Speed symbol",
+    "DUAL LOAD",
+    "DUAL DERATING",
+  ],
+  speedTable: ["speed", ...SPEED_SYMBOLS, "psi"],
+};
+
+/** Fields an imported table may leave unmapped */
+export const OPTIONAL_CATALOG_FIELDS = ["DUAL LOAD", "DUAL DERATING"];
+
+// Header spellings seen in manufacturer spreadsheets, compared after normalizeHeader
+const FIELD_ALIASES: Record<string, string[]> = {
+  "TIRE Size": ["tiresize", "size", "tiresizepattern", "tire"],
+  "LOAD INDEX": ["loadindex", "li", "load", "loadkg", "maxload"],
+  "STD I/P": ["stdip", "ip", "inflationpressure", "pressure", "stdpsi"],
+  "Speed symbol": ["speedsymbol", "symbol", "speedrating", "ss"],
+  "DUAL LOAD": ["dualload", "dual", "dualloadkg", "loaddual"],
+  "DUAL DERATING": ["dualderating", "derating", "dualfactor"],
+  speed: ["speed", "speedkmh", "kmh"],
+  psi: ["psi", "kompensasitekanan", "pressurecompensation"],
+};
+
+/** One sheet of an imported file, as header names and raw cell values */
+export type CatalogTable = {
+  name: string;
+  headers: string[];
+  rows: unknown[][];
+};
+
+/** Field name → column index in the table, or -1 when not mapped */
+export type ColumnMapping = Record<string, number>;
+
+/**
+ * An imported record compared with the active catalog. "removed" only occurs
+ * for speed tables, which are replaced as a whole.
+ */
+export type CatalogChange<T> = {
+  record: T;
+  status: "added" | "changed" | "unchanged" | "removed";
+  previous?: T;
+};
+
+export type CatalogImportPreview =
+  | { kind: "tires"; changes: CatalogChange<Tire>[]; errors: string[] }
+  | { kind: "speedTable"; changes: CatalogChange<SpeedRow>[]; errors: string[] };
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Reads every sheet of a CSV or XLSX file. The first non-empty row of each
+ * sheet is taken as its header row.
+ * @param {ArrayBuffer} buffer - The file contents.
+ * @returns {CatalogTable[]} The sheets that hold at least a header row.
+ */
+export function readCatalogFile(buffer: ArrayBuffer): CatalogTable[] {
+  const wb = XLSX.read(buffer, { type: "array" });
+  return wb.SheetNames.map((name) => {
+    const rows = XLSX.utils
+      .sheet_to_json<unknown[]>(wb.Sheets[name], { header: 1, defval: "" })
+      .filter((row) => row.some((cell) => String(cell).trim() !== ""));
+    return {
+      name,
+      headers: (rows[0] || []).map((cell) => String(cell).trim()),
+      rows: rows.slice(1),
+    };
+  }).filter((table) => table.headers.length);
+}
+
+/**
+ * Guesses whether a table holds tires or a speed table from its headers.
+ * @param {CatalogTable} table - The imported table.
+ * @returns {CatalogKind} The likely kind.
+ */
+export function guessCatalogKind(table: CatalogTable): CatalogKind {
+  const speedMapping = guessColumnMapping(table, "speedTable");
+  const symbolColumns = SPEED_SYMBOLS.filter((s) => speedMapping[s] >= 0);
+  return symbolColumns.length >= 3 ? "speedTable" : "tires";
+}
+
+/**
+ * Maps each field to the column whose header matches its name or a known alias.
+ * @param {CatalogTable} table - The imported table.
+ * @param {CatalogKind} kind - What the table holds.
+ * @returns {ColumnMapping} The guessed mapping; unmatched fields are -1.
+ */
+export function guessColumnMapping(
+  table: CatalogTable,
+  kind: CatalogKind
+): ColumnMapping {
+  const headers = table.headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of CATALOG_FIELDS[kind]) {
+    const names = [normalizeHeader(field), ...(FIELD_ALIASES[field] || [])];
+    mapping[field] = headers.findIndex((h) => names.includes(h));
+  }
+  return mapping;
+}
+
+// Cells may hold numbers or text such as "110%" or "3,000 kg"
+function parseNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  const text = String(value).replace(/,/g, "").trim();
+  const match = text.match(/^-?\d+(\.\d+)?/);
+  if (!match) return NaN;
+  const number = parseFloat(match[0]);
+  return text.endsWith("%") ? number / 100 : number;
+}
+
+function mapTires(
+  table: CatalogTable,
+  mapping: ColumnMapping,
+  errors: string[]
+): Tire[] {
+  const tires: Tire[] = [];
+  table.rows.forEach((row, idx) => {
+    const cell = (field: string) =>
+      mapping[field] >= 0 ? row[mapping[field]] : "";
+    const tire: Tire = {
+      "TIRE Size": String(cell("TIRE Size")).trim(),
+      "LOAD INDEX": parseNumber(cell("LOAD INDEX")),
+      "STD I/P": parseNumber(cell("STD I/P")),
+      "Speed symbol": String(cell("Speed symbol")).trim().toUpperCase(),
+    };
+    // blank optional cells leave the field out rather than failing the row
+    OPTIONAL_CATALOG_FIELDS.forEach((field) => {
+      if (String(cell(field)).trim() !== "")
+        tire[field as "DUAL LOAD" | "DUAL DERATING"] = parseNumber(cell(field));
+    });
+    // duplicates within the file are errors; sizes in the catalog are updates
+    const rowErrors = validateTireRecord(
+      tire,
+      tires.map((t) => t["TIRE Size"])
+    );
+    // header is row 1, so data rows start at 2
+    rowErrors.forEach((err) => errors.push(`Row ${idx + 2}: ${err}`));
+    if (!rowErrors.length) tires.push(tire);
+  });
+  return tires;
+}
+
+function mapSpeedRows(
+  table: CatalogTable,
+  mapping: ColumnMapping,
+  errors: string[]
+): SpeedRow[] {
+  const rows: SpeedRow[] = [];
+  table.rows.forEach((cells, idx) => {
+    const value = (field: string) =>
+      mapping[field] >= 0 ? parseNumber(cells[mapping[field]]) : NaN;
+    const row = Object.fromEntries(
+      CATALOG_FIELDS.speedTable.map((field) => [field, value(field)])
+    ) as SpeedRow;
+
+    const rowErrors: string[] = [];
+    if (!Number.isFinite(row.speed) || row.speed < 0)
+      rowErrors.push("speed must be a number ≥ 0");
+    else if (rows.some((r) => r.speed === row.speed))
+      rowErrors.push(`speed ${row.speed} appears more than once`);
+    SPEED_SYMBOLS.forEach((symbol) => {
+      if (!Number.isFinite(row[symbol]) || row[symbol] < 0)
+        rowErrors.push(`${symbol} must be a factor ≥ 0`);
+    });
+    if (!Number.isFinite(row.psi) || row.psi <= 0)
+      rowErrors.push("psi must be a positive number");
+
+    rowErrors.forEach((err) => errors.push(`Row ${idx + 2}: ${err}`));
+    if (!rowErrors.length) rows.push(row);
+  });
+  return rows;
+}
+
+function compareRecords<T extends object>(
+  imported: T[],
+  current: T[],
+  key: (record: T) => string | number
+): CatalogChange<T>[] {
+  return imported.map((record) => {
+    const previous = current.find((c) => key(c) === key(record));
+    if (!previous) return { record, status: "added" };
+    const same = (Object.keys(record) as (keyof T)[]).every((field) => {
+      const a = record[field];
+      const b = previous[field];
+      // CSV round-trips lose float noise such as 161.20000000000002
+      return typeof a === "number" && typeof b === "number"
+        ? Math.abs(a - b) < 1e-6
+        : a === b;
+    });
+    return { record, status: same ? "unchanged" : "changed", previous };
+  });
+}
+
+/**
+ * Validates an imported table with the given column mapping and compares its
+ * records with the active catalog. Invalid rows are left out of the changes.
+ * @param {CatalogTable} table - The imported table.
+ * @param {CatalogKind} kind - What the table holds.
+ * @param {ColumnMapping} mapping - Which column holds each field.
+ * @param {TireData} data - The active catalog.
+ * @returns {CatalogImportPreview} The valid records with their status, and every row problem.
+ */
+export function previewCatalogImport(
+  table: CatalogTable,
+  kind: CatalogKind,
+  mapping: ColumnMapping,
+  data: TireData
+): CatalogImportPreview {
+  const errors = CATALOG_FIELDS[kind]
+    .filter(
+      (field) =>
+        !(mapping[field] >= 0) && !OPTIONAL_CATALOG_FIELDS.includes(field)
+    )
+    .map((field) => `No column is mapped to "${field}"`);
+  const mapped = !errors.length;
+
+  if (kind === "tires") {
+    const tires = mapped ? mapTires(table, mapping, errors) : [];
+    return {
+      kind,
+      changes: compareRecords(tires, data.tires, (t) => t["TIRE Size"]),
+      errors,
+    };
+  }
+
+  const rows = mapped ? mapSpeedRows(table, mapping, errors) : [];
+  if (mapped && !rows.length) errors.push("The speed table has no valid rows");
+  const removed = data.speed_table
+    .filter((current) => !rows.some((r) => r.speed === current.speed))
+    .map((record) => ({ record, status: "removed" as const }));
+  return {
+    kind,
+    changes: [
+      ...compareRecords(rows, data.speed_table, (r) => r.speed),
+      ...(rows.length ? removed : []),
+    ],
+    errors,
+  };
+}
+
+/**
+ * Downloads the active catalog. XLSX files hold the tire list and the speed
+ * table as two sheets; CSV files hold one table each, so one file is written
+ * per table.
+ * @param {TireData} data - The active catalog.
+ * @param {"xlsx" | "csv"} format - The file format.
+ * @returns {void} This function does not return a value; it triggers file downloads.
+ */
+export function exportCatalog(data: TireData, format: "xlsx" | "csv") {
+  const dateStr = new Date().toISOString().split("T")[0];
+  const tiresSheet = XLSX.utils.json_to_sheet(data.tires, {
+    header: CATALOG_FIELDS.tires,
+  });
+  const speedSheet = XLSX.utils.json_to_sheet(data.speed_table, {
+    header: CATALOG_FIELDS.speedTable,
+  });
+
+  if (format === "xlsx") {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, tiresSheet, "Tires");
+    XLSX.utils.book_append_sheet(wb, speedSheet, "Speed Table");
+    XLSX.writeFile(wb, `Tire_Catalog_${dateStr}.xlsx`);
+    return;
+  }
+
+  [
+    { sheet: tiresSheet, name: "Tires" },
+    { sheet: speedSheet, name: "Speed_Table" },
+  ].forEach(({ sheet, name }) => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, sheet, name);
+    XLSX.writeFile(wb, `Tire_Catalog_${name}_${dateStr}.csv`, {
+      bookType: "csv",
+    });
+  });
+}
@@ -0,0 +1,376 @@
+import { formatAxle, formatWheelSplit } from "./axles";
+import type {
+  CheckResult,
+  CheckStatus,
+  PositionCalc,
+  TireData,
+} from "./calc";
+import {
+  CHECK_STATUS_SEVERITY,
+  PRESSURE_COMPENSATION_RULE_LABELS,
+  calcPosition,
+  getSpeedTableBasePsi,
+  indexSpeedTable,
+  lookupSpeedRow,
+  worstCheck,
+} from "./calc";
+import {
+  LOAD_INPUT_MODE_LABELS,
+  deriveDistributionFromAxleWeights,
+  redistributeRaisedAxles,
+  sumAxleWeights,
+} from "./distribution";
+import {
+  formatFitment,
+  formatIPResult,
+  formatLoadResult,
+  formatPercent,
+} from "./format";
+import type { Scenario, ScenarioPosition } from "./scenario";
+import type { Quantity, UnitPreferences } from "./units";
+import { formatQuantity, formatValue } from "./units";
+
+/**
+ * A scenario pinned to the comparison workspace. The scenario embeds its tire
+ * records, so a pinned scenario keeps its results if the catalog changes.
+ */
+export type PinnedScenario = {
+  id: string;
+  name: string;
+  scenario: Scenario;
+};
+
+export type ComparisonPositionResult = PositionCalc & {
+  position: ScenarioPosition;
+};
+
+/** A pinned scenario with its results worked out */
+export type ComparisonColumn = {
+  pinned: PinnedScenario;
+  /** The total load in tons, summed from the axle weights in axle weight mode */
+  totalLoad: number;
+  /**
+   * The positions as entered, their distribution derived in axle weight mode;
+   * the results carry the shares after raised lift axles are taken off
+   */
+  positions: ScenarioPosition[];
+  results: ComparisonPositionResult[];
+};
+
+/**
+ * How a value differs from the baseline column's:
+ * - better/worse: it moved towards or away from the limits.
+ * - changed: it differs, but neither direction is better.
+ * - same: it equals the baseline, or this is the baseline column.
+ */
+export type DeltaTone = "better" | "worse" | "changed" | "same";
+
+export type ComparisonCell = {
+  text: string;
+  tone: DeltaTone;
+  /** Set on check rows, for coloring the verdict */
+  status?: CheckStatus;
+};
+
+export type ComparisonRow = {
+  /** "Vehicle", or the position the row belongs to, e.g. "Position 2" */
+  section: string;
+  label: string;
+  /** One cell per column; empty text where a scenario has no such position */
+  cells: ComparisonCell[];
+};
+
+type PositionMetric = {
+  label: string;
+  /** The unit the value is shown in, or undefined for a ratio shown as a percentage */
+  quantity?: Quantity;
+  /** Whether a higher value is worse, or null if neither direction is */
+  higherIsWorse: boolean | null;
+  value: (result: ComparisonPositionResult) => number;
+};
+
+// The numeric rows compared for each position, in display order
+const POSITION_METRICS: PositionMetric[] = [
+  {
+    label: "Load/Tire",
+    quantity: "tireLoad",
+    higherIsWorse: true,
+    value: (r) => r.loadPerTire,
+  },
+  {
+    label: "Limit Load",
+    quantity: "tireLoad",
+    higherIsWorse: false,
+    value: (r) => r.limitLoad,
+  },
+  {
+    label: "Load vs. Limit",
+    higherIsWorse: true,
+    value: (r) => r.resultLoad.ratio,
+  },
+  {
+    label: "I/P by ETRTO",
+    quantity: "pressure",
+    higherIsWorse: true,
+    value: (r) => r.ipByETRTO,
+  },
+  {
+    label: "Rec. Cold I/P",
+    quantity: "pressure",
+    higherIsWorse: null,
+    value: (r) => r.ipCompensated,
+  },
+  {
+    label: "I/P vs. Limit",
+    higherIsWorse: true,
+    value: (r) => r.resultIP.ratio,
+  },
+];
+
+// Differences below this are rounding noise, not a change
+const DELTA_EPSILON = 1e-9;
+
+/**
+ * Works out a pinned scenario's results against the current speed table.
+ * Positions use the tire records embedded in the scenario.
+ * @param {PinnedScenario} pinned - The pinned scenario.
+ * @param {TireData} data - The catalog, for its speed table.
+ * @returns {ComparisonColumn} The scenario with its per-position results.
+ */
+export function calcComparisonColumn(
+  pinned: PinnedScenario,
+  data: TireData
+): ComparisonColumn {
+  const { scenario } = pinned;
+  const axleWeightMode = scenario.loadInputMode === "axleWeight";
+  const positions = axleWeightMode
+    ? deriveDistributionFromAxleWeights(scenario.positions)
+    : scenario.positions;
+  const totalLoad = axleWeightMode
+    ? sumAxleWeights(scenario.positions)
+    : scenario.totalLoad;
+  const { row } = lookupSpeedRow(indexSpeedTable(data), scenario.speed);
+  const basePsi = getSpeedTableBasePsi(data);
+
+  const results = redistributeRaisedAxles(positions).flatMap((position) => {
+    // parseScenario guarantees a record for every position's tire
+    const tire = scenario.tires.find(
+      (t) => t["TIRE Size"] === position.tireSize
+    );
+    if (!tire) return [];
+    return [
+      {
+        position,
+        ...calcPosition(
+          tire,
+          position,
+          totalLoad,
+          row,
+          basePsi,
+          scenario.rules,
+          scenario.compensationRule
+        ),
+      },
+    ];
+  });
+  return { pinned, totalLoad, positions, results };
+}
+
+/**
+ * Compares a value with the baseline's.
+ * @param {number} baseline - The baseline column's value.
+ * @param {number} value - The value to compare.
+ * @param {boolean | null} higherIsWorse - Whether a higher value is worse, or null if neither direction is.
+ * @returns {DeltaTone} How the value differs from the baseline.
+ */
+export function compareToBaseline(
+  baseline: number,
+  value: number,
+  higherIsWorse: boolean | null
+): DeltaTone {
+  const delta = value - baseline;
+  if (Math.abs(delta) < DELTA_EPSILON) return "same";
+  if (higherIsWorse === null) return "changed";
+  return delta > 0 === higherIsWorse ? "worse" : "better";
+}
+
+const signed = (text: string) => (text.startsWith("-") ? text : `+${text}`);
+
+/**
+ * Lays out the comparison as rows of cells, one cell per column, so the page
+ * and the exports show the same table. The first column is the baseline; the
+ * others show their difference from it, e.g. "7,050 kg (+350)".
+ * @param {ComparisonColumn[]} columns - The pinned scenarios, baseline first.
+ * @param {UnitPreferences} units - The units values are shown in.
+ * @returns {ComparisonRow[]} The vehicle rows, then each position's rows.
+ */
+export function buildComparisonRows(
+  columns: ComparisonColumn[],
+  units: UnitPreferences
+): ComparisonRow[] {
+  const [baseline] = columns;
+  if (!baseline) return [];
+
+  const textRow = (
+    section: string,
+    label: string,
+    text: (column: ComparisonColumn) => string
+  ): ComparisonRow => ({
+    section,
+    label,
+    cells: columns.map((column) => {
+      const value = text(column);
+      return { text: value, tone: value === text(baseline) ? "same" : "changed" };
+    }),
+  });
+
+  const numberRow = (
+    section: string,
+    label: string,
+    value: (column: ComparisonColumn) => number | null,
+    quantity: Quantity | undefined,
+    higherIsWorse: boolean | null
+  ): ComparisonRow => {
+    const show = (v: number) =>
+      quantity ? formatQuantity(quantity, v, units) : formatPercent(v);
+    const base = value(baseline);
+    return {
+      section,
+      label,
+      cells: columns.map((column, idx) => {
+        const v = value(column);
+        if (v === null) return { text: "", tone: "same" };
+        if (idx === 0 || base === null) return { text: show(v), tone: "same" };
+        const tone = compareToBaseline(base, v, higherIsWorse);
+        if (tone === "same") return { text: show(v), tone };
+        const delta = quantity
+          ? formatValue(quantity, v - base, units)
+          : `${formatPercent(v - base).replace("%", "")} pts`;
+        return { text: `${show(v)} (${signed(delta)})`, tone };
+      }),
+    };
+  };
+
+  const statusRow = (
+    section: string,
+    label: string,
+    check: (column: ComparisonColumn) => CheckResult | null,
+    text: (result: CheckResult) => string
+  ): ComparisonRow => {
+    const base = check(baseline);
+    return {
+      section,
+      label,
+      cells: columns.map((column) => {
+        const result = check(column);
+        if (result === null) return { text: "", tone: "same" };
+        return {
+          text: text(result),
+          status: result.status,
+          tone:
+            base === null
+              ? "same"
+              : compareToBaseline(
+                  CHECK_STATUS_SEVERITY[base.status],
+                  CHECK_STATUS_SEVERITY[result.status],
+                  true
+                ),
+        };
+      }),
+    };
+  };
+
+  const rows: ComparisonRow[] = [
+    textRow("Vehicle", "Rule Profile", (c) => c.pinned.scenario.rules.name),
+    textRow(
+      "Vehicle",
+      "Load Input",
+      (c) => LOAD_INPUT_MODE_LABELS[c.pinned.scenario.loadInputMode]
+    ),
+    textRow(
+      "Vehicle",
+      "Pressure Comp.",
+      (c) =>
+        PRESSURE_COMPENSATION_RULE_LABELS[c.pinned.scenario.compensationRule]
+    ),
+    numberRow("Vehicle", "Total Load", (c) => c.totalLoad, "vehicleLoad", null),
+    numberRow("Vehicle", "Speed", (c) => c.pinned.scenario.speed, "speed", null),
+    statusRow(
+      "Vehicle",
+      "Result Load",
+      (c) => worstCheck(c.results.map((r) => r.resultLoad)),
+      formatLoadResult
+    ),
+    statusRow(
+      "Vehicle",
+      "Result I/P",
+      (c) => worstCheck(c.results.map((r) => r.resultIP)),
+      (r) => formatIPResult(r)
+    ),
+  ];
+
+  // positions are matched by their place on the vehicle
+  const positionCount = Math.max(...columns.map((c) => c.results.length));
+  for (let idx = 0; idx < positionCount; idx++) {
+    const result = (column: ComparisonColumn) => column.results[idx] ?? null;
+    const first = columns.map(result).find((r) => r !== null);
+    const section = `Position ${first?.position.id ?? idx + 1}`;
+
+    rows.push(
+      textRow(section, "Tire Size", (c) => result(c)?.tire["TIRE Size"] ?? ""),
+      textRow(section, "Axle", (c) => {
+        const r = result(c);
+        return r
+          ? `${formatAxle(r.position)} (${r.position.tiresPerPosition} tires)`
+          : "";
+      }),
+      textRow(section, "Wheel Split", (c) => {
+        const r = result(c);
+        return r ? formatWheelSplit(r.position) : "";
+      }),
+      textRow(section, "Fitment", (c) => {
+        const r = result(c);
+        return r ? formatFitment(r.loadRating) : "";
+      }),
+      numberRow(
+        section,
+        "Load Rating",
+        (c) => result(c)?.loadRating.rating ?? null,
+        "tireLoad",
+        false
+      ),
+      numberRow(
+        section,
+        "Load Distribution",
+        (c) => result(c)?.position.loadDistribution ?? null,
+        undefined,
+        null
+      ),
+      ...POSITION_METRICS.map((metric) =>
+        numberRow(
+          section,
+          metric.label,
+          (c) => {
+            const r = result(c);
+            return r ? metric.value(r) : null;
+          },
+          metric.quantity,
+          metric.higherIsWorse
+        )
+      ),
+      statusRow(
+        section,
+        "Result Load",
+        (c) => result(c)?.resultLoad ?? null,
+        formatLoadResult
+      ),
+      statusRow(
+        section,
+        "Result I/P",
+        (c) => result(c)?.resultIP ?? null,
+        (r) => formatIPResult(r)
+      )
+    );
+  }
+  return rows;
+}
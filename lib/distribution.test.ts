@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  balanceDistribution,
+  deriveDistributionFromAxleWeights,
+  formatDistributionWarning,
+  isDistributionBalanced,
+  sumLoadDistribution,
+} from "./distribution";
+
+const POSITIONS = [
+  { loadDistribution: 0.18, tiresPerPosition: 2 },
+  { loadDistribution: 0.4, tiresPerPosition: 4 },
+  { loadDistribution: 0.3, tiresPerPosition: 4 },
+];
+
+describe("isDistributionBalanced", () => {
+  it("accepts totals within half a percent of 100%", () => {
+    const rounded = { loadDistribution: 0.124, tiresPerPosition: 2 };
+    expect(isDistributionBalanced([...POSITIONS, rounded])).toBe(true);
+    expect(isDistributionBalanced(POSITIONS)).toBe(false);
+  });
+
+  it("describes an unbalanced total", () => {
+    expect(formatDistributionWarning(POSITIONS)).toBe(
+      "Load distribution totals 88%, not 100%; results are not valid."
+    );
+  });
+});
+
+describe("balanceDistribution", () => {
+  it("shares the load per tire", () => {
+    const balanced = balanceDistribution(POSITIONS, "perTire");
+    expect(balanced.map((p) => p.loadDistribution)).toEqual([0.2, 0.4, 0.4]);
+  });
+
+  it("shares the load per axle, rounding into the last position", () => {
+    const balanced = balanceDistribution(POSITIONS, "perAxle");
+    expect(balanced.map((p) => p.loadDistribution)).toEqual([
+      0.3333, 0.3333, 0.3334,
+    ]);
+    expect(sumLoadDistribution(balanced)).toBeCloseTo(1, 10);
+  });
+
+  it("rescales the entered shares", () => {
+    const balanced = balanceDistribution(POSITIONS, "proportional");
+    expect(balanced[0].loadDistribution).toBeCloseTo(0.18 / 0.88, 4);
+    expect(isDistributionBalanced(balanced)).toBe(true);
+  });
+
+  it("falls back to equal shares when there is nothing to rescale", () => {
+    const empty = POSITIONS.slice(0, 2).map((p) => ({
+      ...p,
+      loadDistribution: 0,
+    }));
+    expect(
+      balanceDistribution(empty, "proportional").map((p) => p.loadDistribution)
+    ).toEqual([0.5, 0.5]);
+  });
+});
+
+describe("deriveDistributionFromAxleWeights", () => {
+  it("derives each share from the axle weights", () => {
+    const derived = deriveDistributionFromAxleWeights([
+      { loadDistribution: 0, tiresPerPosition: 2, axleWeight: 6 },
+      { loadDistribution: 0, tiresPerPosition: 4, axleWeight: 9 },
+      { loadDistribution: 0, tiresPerPosition: 4 },
+    ]);
+    expect(derived.map((p) => p.loadDistribution)).toEqual([0.4, 0.6, 0]);
+  });
+
+  it("leaves every share at 0 without axle weights", () => {
+    const derived = deriveDistributionFromAxleWeights(POSITIONS);
+    expect(derived.map((p) => p.loadDistribution)).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,161 @@
+import { isAxleRaised } from "./axles";
+
+type DistributedPosition = {
+  loadDistribution: number;
+  tiresPerPosition: number;
+  axleWeight?: number;
+  liftable?: boolean;
+  raised?: boolean;
+};
+
+/**
+ * How the load on each position is entered:
+ * - "distribution": total load × per-position fraction.
+ * - "axleWeight": absolute per-axle weights in tons (e.g. from a weighbridge),
+ *   with the total load and fractions derived from them.
+ */
+export type LoadInputMode = "distribution" | "axleWeight";
+
+export const LOAD_INPUT_MODE_LABELS: Record<LoadInputMode, string> = {
+  distribution: "Total load × distribution",
+  axleWeight: "Axle weights",
+};
+
+/**
+ * How balanceDistribution spreads the load over the positions:
+ * - "perTire": every tire carries the same share.
+ * - "perAxle": every position carries the same share.
+ * - "proportional": keep the current ratios, rescaled to total 100%.
+ */
+export type BalanceMode = "perTire" | "perAxle" | "proportional";
+
+export const BALANCE_MODE_LABELS: Record<BalanceMode, string> = {
+  perTire: "Equal / Tire",
+  perAxle: "Equal / Axle",
+  proportional: "Rescale",
+};
+
+// Distributions are entered in whole percent, so allow rounding within half a percent
+const DISTRIBUTION_TOLERANCE = 0.005;
+
+/**
+ * Sums the load distribution fractions of all positions.
+ * @param {DistributedPosition[]} positions - The vehicle positions.
+ * @returns {number} The total distribution as a fraction (1 = 100%).
+ */
+export function sumLoadDistribution(positions: DistributedPosition[]): number {
+  return positions.reduce((sum, pos) => sum + pos.loadDistribution, 0);
+}
+
+/**
+ * Checks that the load distribution of all positions totals 100%.
+ * @param {DistributedPosition[]} positions - The vehicle positions.
+ * @returns {boolean} True if the total is 100% within rounding tolerance.
+ */
+export function isDistributionBalanced(
+  positions: DistributedPosition[]
+): boolean {
+  return (
+    Math.abs(sumLoadDistribution(positions) - 1) <= DISTRIBUTION_TOLERANCE
+  );
+}
+
+/**
+ * Describes an unbalanced load distribution for display in the UI and exports.
+ * @param {DistributedPosition[]} positions - The vehicle positions.
+ * @returns {string | null} The warning text, or null if the distribution totals 100%.
+ */
+export function formatDistributionWarning(
+  positions: DistributedPosition[]
+): string | null {
+  if (isDistributionBalanced(positions)) return null;
+  const total = sumLoadDistribution(positions) * 100;
+  return `Load distribution totals ${total.toFixed(0)}%, not 100%; results are not valid.`;
+}
+
+/**
+ * Rebalances the load distribution so that it totals exactly 100%.
+ * Shares are rounded to 0.01% and the rounding remainder goes to the last position.
+ * @param {T[]} positions - The vehicle positions.
+ * @param {BalanceMode} mode - How the load is spread over the positions.
+ * @returns {T[]} New position objects with the balanced distribution.
+ */
+export function balanceDistribution<T extends DistributedPosition>(
+  positions: T[],
+  mode: BalanceMode
+): T[] {
+  if (!positions.length) return positions;
+
+  const currentTotal = sumLoadDistribution(positions);
+  const totalTires = positions.reduce(
+    (sum, pos) => sum + pos.tiresPerPosition,
+    0
+  );
+
+  const weights = positions.map((pos) => {
+    if (mode === "perTire") return pos.tiresPerPosition / totalTires;
+    // nothing to rescale from, so fall back to equal shares
+    if (mode === "proportional" && currentTotal > 0)
+      return pos.loadDistribution / currentTotal;
+    return 1 / positions.length;
+  });
+
+  const rounded = weights.map((w) => Math.round(w * 10000) / 10000);
+  const remainder = 1 - rounded.reduce((sum, w) => sum + w, 0);
+  rounded[rounded.length - 1] =
+    Math.round((rounded[rounded.length - 1] + remainder) * 10000) / 10000;
+
+  return positions.map((pos, idx) => ({
+    ...pos,
+    loadDistribution: rounded[idx],
+  }));
+}
+
+/**
+ * Sums the axle weights of all positions; positions without a weight count as 0.
+ * @param {DistributedPosition[]} positions - The vehicle positions.
+ * @returns {number} The total load in tons.
+ */
+export function sumAxleWeights(positions: DistributedPosition[]): number {
+  return positions.reduce((sum, pos) => sum + (pos.axleWeight ?? 0), 0);
+}
+
+/**
+ * Derives each position's load distribution from its axle weight, so the
+ * distribution-based calculation reproduces the weighed axle loads.
+ * @param {T[]} positions - The vehicle positions.
+ * @returns {T[]} New position objects with the derived distribution.
+ */
+export function deriveDistributionFromAxleWeights<
+  T extends DistributedPosition
+>(positions: T[]): T[] {
+  const total = sumAxleWeights(positions);
+  return positions.map((pos) => ({
+    ...pos,
+    loadDistribution: total > 0 ? (pos.axleWeight ?? 0) / total : 0,
+  }));
+}
+
+/**
+ * Takes the load off raised lift axles and spreads it over the axles still on
+ * the road, in proportion to their shares, so the total is unchanged. The
+ * entered shares are kept as they are, ready for when the axle is lowered.
+ * @param {T[]} positions - The vehicle positions.
+ * @returns {T[]} New position objects with the shares the axles actually carry.
+ */
+export function redistributeRaisedAxles<T extends DistributedPosition>(
+  positions: T[]
+): T[] {
+  if (!positions.some(isAxleRaised)) return positions;
+  const total = sumLoadDistribution(positions);
+  const grounded = sumLoadDistribution(
+    positions.filter((pos) => !isAxleRaised(pos))
+  );
+  return positions.map((pos) => ({
+    ...pos,
+    loadDistribution:
+      isAxleRaised(pos) || grounded <= 0
+        ? 0
+        : (pos.loadDistribution * total) / grounded,
+  }));
+}
@@ -1,47 +1,171 @@
 // Use xlsx-js-style for cell styling support (fills, fonts, borders, merges)
 import * as XLSX from "xlsx-js-style";
-import type { Tire, TireData } from "./calc";
+import type { AxleType } from "./axles";
+import {
+  formatAxle,
+  formatWheel,
+  formatWheelSplit,
+  formatWheelSplitWarning,
+  hasWheelSplit,
+} from "./axles";
+import type {
+  CheckResult,
+  CheckStatus,
+  DamageResult,
+  LoadRating,
+  PressureCompensationRule,
+  Tire,
+  TireData,
+  WheelCalc,
+} from "./calc";
+import {
+  LOAD_VERDICT_MODE_LABELS,
+  PRESSURE_COMPENSATION_RULE_LABELS,
+  formatSpeedRangeWarning,
+  indexSpeedTable,
+  isSpeedRowInUse,
+  lookupSpeedRow,
+  worstCheck,
+} from "./calc";
+import type { ComparisonColumn, DeltaTone } from "./comparison";
+import { buildComparisonRows } from "./comparison";
+import type { LoadInputMode } from "./distribution";
+import {
+  LOAD_INPUT_MODE_LABELS,
+  formatDistributionWarning,
+} from "./distribution";
+import {
+  formatDamage,
+  formatFitment,
+  formatIPResult,
+  formatLoadResult,
+  formatPercent,
+} from "./format";
+import type { RuleProfile } from "./rules";
+import { RULE_FIELDS, formatRuleValue } from "./rules";
+import type { Quantity, UnitPreferences } from "./units";
+import {
+  DEFAULT_UNITS,
+  formatQuantity,
+  toDisplayUnit,
+  unitSymbol,
+} from "./units";
 
 type TirePosition = {
   id: string;
+  tireSize: string;
   loadDistribution: number;
-  tiresPerPosition: 2 | 4;
+  tiresPerPosition: number;
+  axleWeight?: number;
+  axleType?: AxleType;
+  liftable?: boolean;
+  raised?: boolean;
+  leftShare?: number;
+  innerShare?: number;
 };
 
 type PositionResult = {
   position: TirePosition;
+  tire: Tire;
+  loadRating: LoadRating;
   row: { speed: number; psi: number; [key: string]: number };
+  loadPerPositionTon: number;
   loadPerTire: number;
   limitLoad: number;
   ipByETRTO: number;
-  resultLoad: string;
-  resultIP: string;
-  damage: { load: string; ip: string };
+  ipCompensated: number;
+  resultLoad: CheckResult;
+  resultLoadSpeed: CheckResult;
+  resultLoadLegacy: CheckResult;
+  resultIP: CheckResult;
+  resultIPCompensated: CheckResult;
+  damage: { load: DamageResult; ip: DamageResult };
+  wheels: WheelCalc[];
 };
 
 /**
  * Generates and downloads an Excel spreadsheet with a detailed tire load and inflation pressure analysis.
  * The spreadsheet includes vehicle settings, position-specific calculations, tire information,
  * results, damage analysis, a speed variation table, and a summary table.
+ * Each distinct tire fitted to the vehicle gets its own block in the tire information section.
  * It uses the 'xlsx-js-style' library to apply formatting and styling.
  *
  * @param {TireData} data - The complete tire dataset, including the speed table.
- * @param {Tire} selectedTire - The specific tire model selected for the calculation.
+ * @param {string} vehicleTire - The vehicle-wide tire size, which new positions get.
  * @param {number} totalLoad - The total vehicle load in tons.
+ * @param {LoadInputMode} loadInputMode - Whether the load was entered as distribution fractions or axle weights.
  * @param {number} speed - The average vehicle speed in km/h.
+ * @param {RuleProfile} rules - The thresholds the results were evaluated under, including which load limit decides the verdict.
+ * @param {PressureCompensationRule} compensationRule - How the recommended cold I/P was compensated for speed.
  * @param {TirePosition[]} positions - An array of vehicle axle positions and their configurations.
  * @param {PositionResult[]} positionResults - An array of calculation results for each position.
+ * @param {UnitPreferences} [units] - The units values are written in; t, kg, psi and km/h by default.
  * @returns {void} This function does not return a value; it triggers a file download.
  */
 export function exportToExcelAdvanced(
   data: TireData,
-  selectedTire: Tire,
+  vehicleTire: string,
   totalLoad: number,
+  loadInputMode: LoadInputMode,
   speed: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule,
   positions: TirePosition[],
-  positionResults: PositionResult[]
+  positionResults: PositionResult[],
+  units: UnitPreferences = DEFAULT_UNITS
 ) {
   const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    buildCalculationSheet(
+      data,
+      vehicleTire,
+      totalLoad,
+      loadInputMode,
+      speed,
+      rules,
+      compensationRule,
+      positions,
+      positionResults,
+      units
+    ),
+    "Calculation"
+  );
+
+  // Generate filename
+  const fittedTires = positionResults
+    .map((r) => r.tire)
+    .filter((t, idx, all) => all.findIndex((o) => o["TIRE Size"] === t["TIRE Size"]) === idx);
+  const tireLabel = fittedTires.length === 1 ? fittedTires[0]["TIRE Size"] : "Mixed";
+  const tireSizeClean = tireLabel.replace(/[\/\\]/g, "-");
+  const dateStr = new Date().toISOString().split("T")[0];
+  const filename = `Load_IP_Calc_${tireSizeClean}_${dateStr}.xlsx`;
+
+  XLSX.writeFile(wb, filename);
+}
+
+// Lays out one scenario's calculation sheet; see exportToExcelAdvanced for the parameters
+function buildCalculationSheet(
+  data: TireData,
+  vehicleTire: string,
+  totalLoad: number,
+  loadInputMode: LoadInputMode,
+  speed: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule,
+  positions: TirePosition[],
+  positionResults: PositionResult[],
+  units: UnitPreferences
+): XLSX.WorkSheet {
+  const { verdictMode } = rules;
+  const legacyHeader = `Result Load (${formatPercent(rules.legacyLoadLimit)})`;
+  const speedLookup = lookupSpeedRow(indexSpeedTable(data), speed);
+  const fmt = (quantity: Quantity, value: number, decimals?: number) =>
+    formatQuantity(quantity, value, units, decimals);
+  const speedWarning = formatSpeedRangeWarning(speedLookup, speed, (kmh) =>
+    fmt("speed", kmh)
+  );
+  const distributionWarning = formatDistributionWarning(positions);
   const ws: XLSX.WorkSheet = {};
 
   // Helper function to set cell
@@ -64,7 +188,6 @@ export function exportToExcelAdvanced(
 
   const fmtPct = (val: number | null | undefined) =>
     val === null || val === undefined ? "" : `${(val * 100).toFixed(0)}%`;
-  const fmtPsi = (val: number) => `${val.toFixed(1)} Psi`;
   const borderThin = {
     top: { style: "thin", color: { rgb: "999999" } },
     bottom: { style: "thin", color: { rgb: "999999" } },
@@ -72,6 +195,17 @@ export function exportToExcelAdvanced(
     right: { style: "thin", color: { rgb: "999999" } },
   } as const;
   const headerFill = { fgColor: { rgb: "EDEDED" } } as const;
+  // Green within the caution band, amber inside it, the given color past the limit
+  const statusFill = (status: CheckStatus, overRgb: string) => ({
+    fgColor: { rgb: status === "ok" ? "B7E1CD" : status === "caution" ? "FFD966" : overRgb },
+  });
+  // A recommended cold I/P is only highlighted when it nears or passes the I/P limit
+  const recIPFill = (check: CheckResult) =>
+    check.status === "ok" ? {} : { fill: statusFill(check.status, "FFF2B3") };
+  // Distinct tires in position order, so a single-tire vehicle keeps one info block
+  const fittedTires = positionResults
+    .map((r) => r.tire)
+    .filter((t, idx, all) => all.findIndex((o) => o["TIRE Size"] === t["TIRE Size"]) === idx);
   const center = { horizontal: "center", vertical: "center" } as const;
   const right = { horizontal: "right", vertical: "center" } as const;
 
@@ -86,21 +220,37 @@ export function exportToExcelAdvanced(
 
   // ===== TOTAL LOAD =====
   setCell("B3", "Total Load", { font: { bold: true } });
-  setCell("C3", totalLoad, { alignment: right });
-  setCell("D3", "Ton", { alignment: right });
+  setCell("C3", +toDisplayUnit("vehicleLoad", totalLoad, units).toFixed(2), { alignment: right });
+  setCell("D3", unitSymbol("vehicleLoad", units), { alignment: right });
+  setCell("B4", "Load Input:", { font: { bold: true } });
+  setCell("C4", LOAD_INPUT_MODE_LABELS[loadInputMode], { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+  setCell("E3", "Load Verdict:", { font: { bold: true } });
+  setCell("F3", LOAD_VERDICT_MODE_LABELS[verdictMode], { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+  setCell("H3", "Pressure Comp.:", { font: { bold: true } });
+  setCell("I3", PRESSURE_COMPENSATION_RULE_LABELS[compensationRule], { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+  if (speedWarning) {
+    setCell("E4", speedWarning, { font: { bold: true, color: { rgb: "C00000" } } });
+  }
+  if (distributionWarning) {
+    setCell("B2", distributionWarning, { font: { bold: true, color: { rgb: "C00000" } }, fill: { fgColor: { rgb: "FFC1C1" } } });
+  }
 
   // ===== POSITION CALCULATIONS =====
   let row = 5;
   setCell(`B${row}`, "Load Distribution", { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
   setCell(`C${row}`, "Load/Tire", { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
   setCell(`D${row}`, "I/P by ETRTO", { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
+  setCell(`E${row}`, "Tire size / Pattern", { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
+  setCell(`F${row}`, "Rec. Cold I/P", { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
   row++;
 
   positionResults.forEach((result) => {
     const dist = (result.position.loadDistribution * 100).toFixed(0) + "%";
     setCell(`B${row}`, dist, { fill: { fgColor: { rgb: "0099FF" } }, border: borderThin, alignment: center });
-    setCell(`C${row}`, result.loadPerTire.toFixed(0) + " Kg", { border: borderThin, alignment: right });
-    setCell(`D${row}`, result.ipByETRTO.toFixed(1) + " Psi", { border: borderThin, alignment: right });
+    setCell(`C${row}`, fmt("tireLoad", result.loadPerTire), { border: borderThin, alignment: right });
+    setCell(`D${row}`, fmt("pressure", result.ipByETRTO), { border: borderThin, alignment: right });
+    setCell(`E${row}`, result.tire["TIRE Size"], { border: borderThin });
+    setCell(`F${row}`, fmt("pressure", result.ipCompensated), { ...recIPFill(result.resultIPCompensated), border: borderThin, alignment: right });
     row++;
   });
 
@@ -108,29 +258,30 @@ export function exportToExcelAdvanced(
   row += 2;
   const tireInfoRow = row;
 
-  setCell(`E${row}`, "Tire size / Pattern:", { font: { bold: true } });
-  setCell(`F${row}`, selectedTire["TIRE Size"], { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
-  setCell(`H${row}`, "Speed Symbol", { font: { bold: true } });
-  row++;
+  fittedTires.forEach((tire) => {
+    setCell(`E${row}`, "Tire size / Pattern:", { font: { bold: true } });
+    setCell(`F${row}`, tire["TIRE Size"], { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+    setCell(`H${row}`, "Speed Symbol", { font: { bold: true } });
+    row++;
 
-  setCell(`E${row}`, "Load Index:", { font: { bold: true } });
-  setCell(`F${row}`, selectedTire["LOAD INDEX"] + " Kg", { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
-  setCell(`H${row}`, selectedTire["Speed symbol"], { fill: { fgColor: { rgb: "FFF2B3" } }, border: borderThin, alignment: center });
-  row++;
+    setCell(`E${row}`, "Load Index:", { font: { bold: true } });
+    setCell(`F${row}`, fmt("tireLoad", tire["LOAD INDEX"]), { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+    setCell(`H${row}`, tire["Speed symbol"], { fill: { fgColor: { rgb: "FFF2B3" } }, border: borderThin, alignment: center });
+    row++;
 
-  setCell(`E${row}`, "Ave. Speed:", { font: { bold: true } });
-  setCell(`F${row}`, speed + " Km/h", { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
-  row++;
+    setCell(`E${row}`, "STD I/P:", { font: { bold: true } });
+    setCell(`F${row}`, fmt("pressure", tire["STD I/P"]), { border: borderThin });
+    row++;
+  });
 
-  setCell(`E${row}`, "STD I/P:", { font: { bold: true } });
-  setCell(`F${row}`, fmtPsi(selectedTire["STD I/P"]), { border: borderThin });
+  setCell(`E${row}`, "Ave. Speed:", { font: { bold: true } });
+  setCell(`F${row}`, fmt("speed", speed), { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
   row++;
 
   setCell(`E${row}`, "Result I/P", { font: { bold: true } });
-  const overallResultIP = positionResults.some((r) => r.resultIP !== "OK")
-    ? "CONSULT TO BS"
-    : "OK";
-  setCell(`F${row}`, overallResultIP, { fill: { fgColor: { rgb: overallResultIP === "OK" ? "B7E1CD" : "FFF2B3" } }, border: borderThin, alignment: center });
+  const worstIP = worstCheck(positionResults.map((r) => r.resultIP));
+  const worstIPStatus = worstIP?.status ?? "ok";
+  setCell(`F${row}`, worstIP ? formatIPResult(worstIP) : "OK", { fill: statusFill(worstIPStatus, "FFF2B3"), border: borderThin, alignment: center });
 
   // ===== RESULTS SECTION =====
   row = tireInfoRow;
@@ -139,11 +290,11 @@ export function exportToExcelAdvanced(
   row++;
 
   positionResults.forEach((result) => {
-    setCell(`I${row}`, result.resultLoad, { fill: { fgColor: { rgb: result.resultLoad === "OK" ? "B7E1CD" : "FFC1C1" } }, border: borderThin, alignment: center });
+    setCell(`I${row}`, formatLoadResult(result.resultLoad), { fill: statusFill(result.resultLoad.status, "FFC1C1"), border: borderThin, alignment: center });
     setCell(
       `J${row}`,
-      result.resultIP === "OK" ? "OK" : "CONSULT TO BS",
-      { fill: { fgColor: { rgb: result.resultIP === "OK" ? "B7E1CD" : "FFF2B3" } }, border: borderThin, alignment: center }
+      formatIPResult(result.resultIP),
+      { fill: statusFill(result.resultIP.status, "FFF2B3"), border: borderThin, alignment: center }
     );
     row++;
   });
@@ -156,11 +307,10 @@ export function exportToExcelAdvanced(
   row++;
 
   positionResults.forEach((result) => {
-    const ipPercent = result.damage.ip === "OK" ? "OK" : result.damage.ip;
-    const loadPercent = result.damage.load === "OK" ? "OK" : result.damage.load;
-    setCell(`I${row}`, result.resultIP === "OK" ? "OK" : result.resultIP, { border: borderThin, alignment: center, fill: { fgColor: { rgb: result.resultIP === "OK" ? "B7E1CD" : "FFFFFF" } } });
-    setCell(`J${row}`, ipPercent, { border: borderThin, alignment: center, fill: { fgColor: { rgb: ipPercent === "OK" ? "B7E1CD" : "FFFFFF" } } });
-    setCell(`K${row}`, loadPercent, { border: borderThin, alignment: center, fill: { fgColor: { rgb: loadPercent === "OK" ? "B7E1CD" : "FFFFFF" } } });
+    const { ip, load } = result.damage;
+    setCell(`I${row}`, formatIPResult(result.resultIP), { border: borderThin, alignment: center, fill: statusFill(result.resultIP.status, "FFFFFF") });
+    setCell(`J${row}`, formatDamage(ip), { border: borderThin, alignment: center, fill: statusFill(ip.status, "FFFFFF") });
+    setCell(`K${row}`, formatDamage(load), { border: borderThin, alignment: center, fill: statusFill(load.status, "FFFFFF") });
     row++;
   });
 
@@ -178,7 +328,7 @@ export function exportToExcelAdvanced(
   speedRow += 2;
 
   // Headers
-  const headers = ["Speed (km/h)", "F", "G", "J", "K", "L", "M", "Kompensasi Tekanan"];
+  const headers = [`Speed (${unitSymbol("speed", units)})`, "F", "G", "J", "K", "L", "M", "Kompensasi Tekanan"];
   headers.forEach((header, idx) => {
     ws[XLSX.utils.encode_cell({ r: speedRow, c: speedTableStartCol + idx })] = {
       v: header,
@@ -198,9 +348,10 @@ export function exportToExcelAdvanced(
 
   // Speed table data
   data.speed_table.forEach((speedRowData) => {
-    const isActive = speedRowData.speed === speed;
+    // exact row, or the two rows the speed was interpolated between
+    const isActive = isSpeedRowInUse(speedLookup, speedRowData);
     ws[XLSX.utils.encode_cell({ r: speedRow, c: speedTableStartCol })] = {
-      v: speedRowData.speed,
+      v: +toDisplayUnit("speed", speedRowData.speed, units).toFixed(1),
       t: "n",
       s: isActive ? { fill: { fgColor: { rgb: "FF9999" } }, font: { bold: true } } : undefined,
     };
@@ -224,7 +375,7 @@ export function exportToExcelAdvanced(
     });
 
     ws[XLSX.utils.encode_cell({ r: speedRow, c: speedTableStartCol + 7 })] = {
-      v: fmtPsi(speedRowData.psi),
+      v: fmt("pressure", speedRowData.psi),
       t: "s",
       s: { alignment: right, border: borderThin, ...(isActive ? { fill: { fgColor: { rgb: "FFEEEE" } } } : {}) },
     };
@@ -237,29 +388,113 @@ export function exportToExcelAdvanced(
 
   const summaryHeaders = [
     "Position",
+    "Tire size / Pattern",
     "Load Distribution",
+    "Axle Load",
     "Load/Tire",
+    "Limit Load",
     "I/P by ETRTO",
-    "Result Load",
+    "Rec. Cold I/P",
+    "Result Load (Speed)",
+    legacyHeader,
     "Result I/P",
     "Damage Load",
     "Damage I/P",
+    "Fitment",
+    "Load Rating",
+    "Tires",
+    "Axle",
+    "Wheel Split",
+    "Entered Load",
   ];
+  // The verdict column that drives Result Load / Damage Load is highlighted
+  const activeVerdictHeader = verdictMode === "speed" ? "Result Load (Speed)" : legacyHeader;
 
   summaryHeaders.forEach((header, idx) => {
-    setCell(`${String.fromCharCode(66 + idx)}${row}`, header, { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
+    const fill = header === activeVerdictHeader ? { fgColor: { rgb: "CDEFFF" } } : headerFill;
+    setCell(`${String.fromCharCode(66 + idx)}${row}`, header, { font: { bold: true }, fill, border: borderThin, alignment: center });
   });
   row++;
 
-  positionResults.forEach((result) => {
+  positionResults.forEach((result, idx) => {
     setCell(`B${row}`, `Position ${result.position.id}`, { border: borderThin });
-    setCell(`C${row}`, (result.position.loadDistribution * 100).toFixed(0) + "%", { alignment: center, border: borderThin });
-    setCell(`D${row}`, result.loadPerTire.toFixed(2) + " Kg", { alignment: right, border: borderThin });
-    setCell(`E${row}`, fmtPsi(result.ipByETRTO), { alignment: right, border: borderThin });
-    setCell(`F${row}`, result.resultLoad, { alignment: center, border: borderThin });
-    setCell(`G${row}`, result.resultIP, { alignment: center, border: borderThin });
-    setCell(`H${row}`, result.damage.load, { alignment: center, border: borderThin });
-    setCell(`I${row}`, result.damage.ip, { alignment: center, border: borderThin });
+    setCell(`C${row}`, result.tire["TIRE Size"], { border: borderThin });
+    setCell(`D${row}`, (result.position.loadDistribution * 100).toFixed(0) + "%", { alignment: center, border: borderThin });
+    setCell(`E${row}`, fmt("vehicleLoad", result.loadPerPositionTon), { alignment: right, border: borderThin });
+    setCell(`F${row}`, fmt("tireLoad", result.loadPerTire, 2), { alignment: right, border: borderThin });
+    setCell(`G${row}`, fmt("tireLoad", result.limitLoad), { alignment: right, border: borderThin });
+    setCell(`H${row}`, fmt("pressure", result.ipByETRTO), { alignment: right, border: borderThin });
+    setCell(`I${row}`, fmt("pressure", result.ipCompensated), { ...recIPFill(result.resultIPCompensated), alignment: right, border: borderThin });
+    setCell(`J${row}`, formatLoadResult(result.resultLoadSpeed), { fill: statusFill(result.resultLoadSpeed.status, "FFC1C1"), alignment: center, border: borderThin });
+    setCell(`K${row}`, formatLoadResult(result.resultLoadLegacy), { fill: statusFill(result.resultLoadLegacy.status, "FFC1C1"), alignment: center, border: borderThin });
+    setCell(`L${row}`, formatIPResult(result.resultIP), { fill: statusFill(result.resultIP.status, "FFF2B3"), alignment: center, border: borderThin });
+    setCell(`M${row}`, formatDamage(result.damage.load), { alignment: center, border: borderThin });
+    setCell(`N${row}`, formatDamage(result.damage.ip), { alignment: center, border: borderThin });
+    setCell(`O${row}`, formatFitment(result.loadRating), { border: borderThin });
+    setCell(`P${row}`, fmt("tireLoad", result.loadRating.rating), { alignment: right, border: borderThin });
+    setCell(`Q${row}`, result.position.tiresPerPosition, { alignment: center, border: borderThin });
+    setCell(`R${row}`, formatAxle(result.position), { border: borderThin });
+    setCell(`S${row}`, formatWheelSplit(result.position), { border: borderThin });
+    // The load as entered, before a raised lift axle's share is moved to the
+    // others, so a re-import restores it
+    const entered = positions[idx];
+    setCell(
+      `T${row}`,
+      loadInputMode === "axleWeight"
+        ? fmt("vehicleLoad", entered.axleWeight ?? 0, 2)
+        : (entered.loadDistribution * 100).toFixed(2) + "%",
+      { alignment: right, border: borderThin }
+    );
+    row++;
+  });
+
+  // ===== WHEEL LOADS =====
+  // Positions with an uneven split list every wheel; the heaviest one is in the summary
+  const splitResults = positionResults.filter((r) => hasWheelSplit(r.position));
+  if (splitResults.length) {
+    row += 2;
+    setCell(`B${row}`, "Wheel Loads", { font: { bold: true } });
+    row++;
+    splitResults.forEach((result) => {
+      const warning = formatWheelSplitWarning(result.position);
+      if (!warning) return;
+      setCell(`B${row}`, `Position ${result.position.id}: ${warning}`, { font: { bold: true, color: { rgb: "C00000" } } });
+      row++;
+    });
+    ["Position", "Wheel", "Tires", "Load/Tire", "I/P by ETRTO", "Rec. Cold I/P", "Result Load", "Result I/P"].forEach((header, idx) => {
+      setCell(`${String.fromCharCode(66 + idx)}${row}`, header, { font: { bold: true }, fill: headerFill, border: borderThin, alignment: center });
+    });
+    row++;
+    splitResults.forEach((result) => {
+      result.wheels.forEach((wheel) => {
+        setCell(`B${row}`, `Position ${result.position.id}`, { border: borderThin });
+        setCell(`C${row}`, formatWheel(wheel), { border: borderThin });
+        setCell(`D${row}`, wheel.tires, { alignment: center, border: borderThin });
+        setCell(`E${row}`, fmt("tireLoad", wheel.loadPerTire, 2), { alignment: right, border: borderThin });
+        setCell(`F${row}`, fmt("pressure", wheel.ipByETRTO), { alignment: right, border: borderThin });
+        setCell(`G${row}`, fmt("pressure", wheel.ipCompensated), { ...recIPFill(wheel.resultIPCompensated), alignment: right, border: borderThin });
+        setCell(`H${row}`, formatLoadResult(wheel.resultLoad), { fill: statusFill(wheel.resultLoad.status, "FFC1C1"), alignment: center, border: borderThin });
+        setCell(`I${row}`, formatIPResult(wheel.resultIP), { fill: statusFill(wheel.resultIP.status, "FFF2B3"), alignment: center, border: borderThin });
+        row++;
+      });
+    });
+  }
+
+  // ===== VEHICLE TIRE =====
+  // The tire new positions get, which positions with their own tire differ from
+  row += 2;
+  setCell(`B${row}`, "Vehicle Tire:", { font: { bold: true } });
+  setCell(`C${row}`, vehicleTire, { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+
+  // ===== RULE PROFILE =====
+  // Recorded so the thresholds behind the verdicts travel with the file
+  row += 2;
+  setCell(`B${row}`, "Rule Profile:", { font: { bold: true } });
+  setCell(`C${row}`, rules.name, { fill: { fgColor: { rgb: "CDEFFF" } }, border: borderThin });
+  row++;
+  RULE_FIELDS.forEach(({ key, label }) => {
+    setCell(`B${row}`, `${label}:`, { font: { bold: true } });
+    setCell(`C${row}`, formatRuleValue(rules[key]), { alignment: right, border: borderThin });
     row++;
   });
 
@@ -267,24 +502,24 @@ export function exportToExcelAdvanced(
   ws["!cols"] = [
     { wch: 3 }, // A
     { wch: 18 }, // B
-    { wch: 12 }, // C
+    { wch: 18 }, // C
     { wch: 12 }, // D
     { wch: 20 }, // E
     { wch: 18 }, // F
-    { wch: 5 }, // G
+    { wch: 15 }, // G
     { wch: 15 }, // H
     { wch: 15 }, // I
     { wch: 12 }, // J
     { wch: 12 }, // K
-    { wch: 3 }, // L
-    { wch: 3 }, // M
+    { wch: 12 }, // L
+    { wch: 12 }, // M
     { wch: 12 }, // N
-    { wch: 8 }, // O
-    { wch: 8 }, // P
+    { wch: 34 }, // O
+    { wch: 12 }, // P
     { wch: 8 }, // Q
-    { wch: 8 }, // R
-    { wch: 8 }, // S
-    { wch: 8 }, // T
+    { wch: 34 }, // R
+    { wch: 20 }, // S
+    { wch: 14 }, // T
     { wch: 20 }, // U
   ];
 
@@ -295,12 +530,119 @@ export function exportToExcelAdvanced(
   };
   ws["!ref"] = XLSX.utils.encode_range(range as unknown as XLSX.Range);
 
-  XLSX.utils.book_append_sheet(wb, ws, "Calculation");
+  return ws;
+}
 
-  // Generate filename
-  const tireSizeClean = selectedTire["TIRE Size"].replace(/[\/\\]/g, "-");
-  const dateStr = new Date().toISOString().split("T")[0];
-  const filename = `Load_IP_Calc_${tireSizeClean}_${dateStr}.xlsx`;
+// Fill colors for cells that differ from the baseline scenario
+const DELTA_FILLS: Record<DeltaTone, string | null> = {
+  better: "C6EFCE",
+  worse: "FFC7CE",
+  changed: "DDEBF7",
+  same: null,
+};
 
-  XLSX.writeFile(wb, filename);
+/**
+ * Generates and downloads a workbook comparing pinned scenarios. The first
+ * sheet lays the scenarios out side by side with their differences from the
+ * baseline highlighted; each scenario then gets its own calculation sheet.
+ *
+ * @param {TireData} data - The complete tire dataset, including the speed table.
+ * @param {ComparisonColumn[]} columns - The pinned scenarios and their results, baseline first.
+ * @param {UnitPreferences} [units] - The units values are written in; t, kg, psi and km/h by default.
+ * @returns {void} This function does not return a value; it triggers a file download.
+ */
+export function exportComparisonToExcel(
+  data: TireData,
+  columns: ComparisonColumn[],
+  units: UnitPreferences = DEFAULT_UNITS
+) {
+  const wb = XLSX.utils.book_new();
+  const ws: XLSX.WorkSheet = {};
+  const borderThin = {
+    top: { style: "thin", color: { rgb: "999999" } },
+    bottom: { style: "thin", color: { rgb: "999999" } },
+    left: { style: "thin", color: { rgb: "999999" } },
+    right: { style: "thin", color: { rgb: "999999" } },
+  } as const;
+  const statusFont: Record<CheckStatus, string> = {
+    ok: "008000",
+    caution: "BF9000",
+    over: "C00000",
+  };
+  const setCell = (r: number, c: number, value: string, style?: Record<string, unknown>) => {
+    ws[XLSX.utils.encode_cell({ r, c })] = { v: value, t: "s", s: style };
+  };
+
+  setCell(0, 0, "Scenario Comparison", { font: { bold: true } });
+  setCell(1, 0, "Differences are against the first scenario.", { font: { italic: true, color: { rgb: "666666" } } });
+
+  let row = 3;
+  setCell(row, 0, "", { fill: { fgColor: { rgb: "EDEDED" } }, border: borderThin });
+  setCell(row, 1, "", { fill: { fgColor: { rgb: "EDEDED" } }, border: borderThin });
+  columns.forEach((column, idx) => {
+    setCell(row, 2 + idx, idx === 0 ? `${column.pinned.name} (baseline)` : column.pinned.name, {
+      font: { bold: true },
+      fill: { fgColor: { rgb: "EDEDED" } },
+      border: borderThin,
+      alignment: { horizontal: "center" },
+    });
+  });
+  row++;
+
+  let section = "";
+  buildComparisonRows(columns, units).forEach((comparisonRow) => {
+    // name each section once, on its first row
+    setCell(row, 0, comparisonRow.section === section ? "" : comparisonRow.section, { font: { bold: true } });
+    section = comparisonRow.section;
+    setCell(row, 1, comparisonRow.label, { border: borderThin });
+    comparisonRow.cells.forEach((cell, idx) => {
+      const fill = DELTA_FILLS[cell.tone];
+      setCell(row, 2 + idx, cell.text, {
+        border: borderThin,
+        alignment: { horizontal: "right" },
+        ...(fill ? { fill: { fgColor: { rgb: fill } } } : {}),
+        ...(cell.status ? { font: { bold: true, color: { rgb: statusFont[cell.status] } } } : {}),
+      });
+    });
+    row++;
+  });
+
+  ws["!cols"] = [{ wch: 14 }, { wch: 18 }, ...columns.map(() => ({ wch: 22 }))];
+  ws["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: row, c: columns.length + 1 } });
+  XLSX.utils.book_append_sheet(wb, ws, "Comparison");
+
+  // Sheet names are at most 31 characters, without []:*?/\ and unique
+  // regardless of case
+  const SHEET_NAME_LENGTH = 31;
+  const sheetNames = new Set(["comparison"]);
+  columns.forEach((column, idx) => {
+    const base = column.pinned.name.replace(/[\[\]:*?\/\\]/g, "-").trim() || `Scenario ${idx + 1}`;
+    let name = base.slice(0, SHEET_NAME_LENGTH).trimEnd();
+    for (let n = 2; sheetNames.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, SHEET_NAME_LENGTH - suffix.length).trimEnd() + suffix;
+    }
+    sheetNames.add(name.toLowerCase());
+
+    const { scenario } = column.pinned;
+    XLSX.utils.book_append_sheet(
+      wb,
+      buildCalculationSheet(
+        data,
+        scenario.tireSize,
+        column.totalLoad,
+        scenario.loadInputMode,
+        scenario.speed,
+        scenario.rules,
+        scenario.compensationRule,
+        column.positions,
+        column.results,
+        units
+      ),
+      name
+    );
+  });
+
+  const dateStr = new Date().toISOString().split("T")[0];
+  XLSX.writeFile(wb, `Load_IP_Comparison_${dateStr}.xlsx`);
 }
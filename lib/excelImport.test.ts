@@ -0,0 +1,245 @@
+import * as XLSX from "xlsx-js-style";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Tire, TireData } from "./calc";
+import {
+  calcPosition,
+  getSpeedTableBasePsi,
+  indexSpeedTable,
+  lookupSpeedRow,
+} from "./calc";
+import {
+  deriveDistributionFromAxleWeights,
+  redistributeRaisedAxles,
+  sumAxleWeights,
+} from "./distribution";
+import { exportToExcelAdvanced } from "./excelExport";
+import { importFromExcel } from "./excelImport";
+import { RULE_PROFILES } from "./rules";
+import type { ScenarioInputs } from "./scenario";
+import type { UnitPreferences } from "./units";
+import { DEFAULT_UNITS } from "./units";
+
+// the exported workbook, kept instead of downloaded
+const exported = vi.hoisted(() => ({ wb: null as unknown }));
+vi.mock("xlsx-js-style", async (importOriginal) => {
+  const { default: xlsx } = await importOriginal<{
+    default: typeof import("xlsx-js-style");
+  }>();
+  const mocked = {
+    ...xlsx,
+    writeFile: (wb: unknown) => {
+      exported.wb = wb;
+    },
+  };
+  return { ...mocked, default: mocked };
+});
+
+const TIRES: Tire[] = [
+  {
+    "TIRE Size": "10.00-20 16 EMSA",
+    "LOAD INDEX": 3000,
+    "STD I/P": 115,
+    "Speed symbol": "J",
+  },
+  {
+    "TIRE Size": "11.00-20 16 EMSA",
+    "LOAD INDEX": 3350,
+    "STD I/P": 115,
+    "Speed symbol": "J",
+  },
+];
+
+const DATA: TireData = {
+  tires: TIRES,
+  speed_table: [30, 40, 50].map((speed, idx) => ({
+    speed,
+    F: 1.25 - idx * 0.05,
+    G: 1.25 - idx * 0.05,
+    J: 1.25 - idx * 0.05,
+    K: 1.25 - idx * 0.05,
+    L: 1.25 - idx * 0.05,
+    M: 1.25 - idx * 0.05,
+    psi: 140 - idx * 2,
+  })),
+};
+
+const INPUTS: ScenarioInputs = {
+  tireSize: "11.00-20 16 EMSA",
+  totalLoad: 30,
+  speed: 45,
+  loadInputMode: "distribution",
+  rules: RULE_PROFILES[2],
+  compensationRule: "additive",
+  positions: [
+    {
+      id: "1",
+      tireSize: "10.00-20 16 EMSA",
+      loadDistribution: 0.2,
+      tiresPerPosition: 2,
+    },
+    {
+      id: "2",
+      tireSize: "11.00-20 16 EMSA",
+      loadDistribution: 0.8,
+      tiresPerPosition: 8,
+      axleType: "dual",
+      leftShare: 0.55,
+      innerShare: 0.6,
+    },
+  ],
+};
+
+// Exports the inputs as the calculator does and returns the file contents
+function exportWorkbook(
+  inputs: ScenarioInputs,
+  units: UnitPreferences = DEFAULT_UNITS
+): ArrayBuffer {
+  const axleWeights = inputs.loadInputMode === "axleWeight";
+  const positions = axleWeights
+    ? deriveDistributionFromAxleWeights(inputs.positions)
+    : inputs.positions;
+  const totalLoad = axleWeights
+    ? sumAxleWeights(inputs.positions)
+    : inputs.totalLoad;
+  const { row } = lookupSpeedRow(indexSpeedTable(DATA), inputs.speed);
+  const results = redistributeRaisedAxles(positions).map((pos) => ({
+    position: pos,
+    ...calcPosition(
+      TIRES.find((t) => t["TIRE Size"] === pos.tireSize)!,
+      pos,
+      totalLoad,
+      row,
+      getSpeedTableBasePsi(DATA),
+      inputs.rules,
+      inputs.compensationRule
+    ),
+  }));
+  exportToExcelAdvanced(
+    DATA,
+    inputs.tireSize,
+    totalLoad,
+    inputs.loadInputMode,
+    inputs.speed,
+    inputs.rules,
+    inputs.compensationRule,
+    positions,
+    results,
+    units
+  );
+  return XLSX.write(exported.wb as XLSX.WorkBook, {
+    type: "array",
+    bookType: "xlsx",
+  });
+}
+
+// The inputs the calculator holds before an import
+const FALLBACK: ScenarioInputs = {
+  ...INPUTS,
+  tireSize: "10.00-20 16 EMSA",
+  totalLoad: 1,
+  speed: 1,
+  rules: RULE_PROFILES[0],
+  compensationRule: "proportional",
+  positions: [],
+};
+
+function importWorkbook(buffer: ArrayBuffer) {
+  const result = importFromExcel(buffer, TIRES, FALLBACK);
+  if (!result.ok) throw new Error(result.problems.join("\n"));
+  return result;
+}
+
+describe("importFromExcel", () => {
+  beforeEach(() => {
+    exported.wb = null;
+  });
+
+  it("reads back an exported sheet", () => {
+    const { inputs, problems } = importWorkbook(exportWorkbook(INPUTS));
+    expect(problems).toEqual([]);
+    expect(inputs).toMatchObject({
+      ...INPUTS,
+      rules: { ...INPUTS.rules, custom: undefined },
+      positions: INPUTS.positions.map((p) => ({
+        ...p,
+        loadDistribution: expect.closeTo(p.loadDistribution, 6),
+      })),
+    });
+  });
+
+  it("reads values exported in other units", () => {
+    const { inputs } = importWorkbook(
+      exportWorkbook(INPUTS, { pressure: "kPa", load: "lb", speed: "mph" })
+    );
+    expect(inputs.totalLoad).toBeCloseTo(INPUTS.totalLoad, 2);
+    expect(inputs.speed).toBeCloseTo(INPUTS.speed, 0);
+  });
+
+  it("reads back the axle weights entered, also of a raised lift axle", () => {
+    const inputs: ScenarioInputs = {
+      ...INPUTS,
+      loadInputMode: "axleWeight",
+      positions: [
+        { ...INPUTS.positions[0], axleWeight: 6.5 },
+        { ...INPUTS.positions[1], axleWeight: 22 },
+        {
+          ...INPUTS.positions[0],
+          id: "3",
+          axleWeight: 4,
+          liftable: true,
+          raised: true,
+        },
+      ],
+    };
+    const imported = importWorkbook(exportWorkbook(inputs)).inputs;
+    expect(imported.loadInputMode).toBe("axleWeight");
+    expect(imported.positions.map((p) => p.axleWeight)).toEqual([6.5, 22, 4]);
+    expect(imported.positions[2]).toMatchObject({
+      liftable: true,
+      raised: true,
+    });
+  });
+
+  it("replaces tires outside the catalog, reporting each size once", () => {
+    const buffer = exportWorkbook(INPUTS);
+    const result = importFromExcel(buffer, TIRES.slice(0, 1), FALLBACK);
+    if (!result.ok) throw new Error(result.problems.join("\n"));
+    expect(result.inputs.tireSize).toBe(FALLBACK.tireSize);
+    expect(result.inputs.positions.map((p) => p.tireSize)).toEqual([
+      FALLBACK.tireSize,
+      FALLBACK.tireSize,
+    ]);
+    expect(result.problems).toEqual([
+      'Calculation tire size: tire "11.00-20 16 EMSA" is not in the catalog; "10.00-20 16 EMSA" is used',
+    ]);
+  });
+
+  it("rejects values out of range", () => {
+    const wb = XLSX.read(exportWorkbook(INPUTS), { type: "array" });
+    const ws = wb.Sheets.Calculation;
+    const label = Object.keys(ws).find((ref) => ws[ref].v === "I/P Limit:")!;
+    const { r, c } = XLSX.utils.decode_cell(label);
+    ws[XLSX.utils.encode_cell({ r, c: c + 1 })] = { t: "s", v: "-5%" };
+    const result = importFromExcel(
+      XLSX.write(wb, { type: "array", bookType: "xlsx" }),
+      TIRES,
+      FALLBACK
+    );
+    expect(result).toEqual({
+      ok: false,
+      problems: ["Calculation: rules.ipLimit must be a positive number"],
+    });
+  });
+
+  it("reports a workbook without a calculation sheet", () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["x"]]), "S");
+    expect(
+      importFromExcel(
+        XLSX.write(wb, { type: "array", bookType: "xlsx" }),
+        TIRES,
+        FALLBACK
+      )
+    ).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,496 @@
+import * as XLSX from "xlsx";
+import { parseAxle, parseWheelSplit } from "./axles";
+import type { Tire } from "./calc";
+import {
+  LOAD_VERDICT_MODE_LABELS,
+  PRESSURE_COMPENSATION_RULE_LABELS,
+} from "./calc";
+import { LOAD_INPUT_MODE_LABELS } from "./distribution";
+import type { RuleProfile } from "./rules";
+import { RULE_FIELDS, RULE_PROFILES } from "./rules";
+import type { ScenarioInputs, ScenarioPosition } from "./scenario";
+import { validateScenarioInputs } from "./scenario";
+import type { Quantity } from "./units";
+import { fromDisplayUnit, unitsInText } from "./units";
+
+export type ExcelImportResult =
+  | { ok: true; inputs: ScenarioInputs; problems: string[] }
+  | { ok: false; problems: string[] };
+
+type CellRef = { r: number; c: number };
+
+/**
+ * Reads cells of one worksheet and records every cell that could not be parsed.
+ */
+class SheetReader {
+  readonly problems: string[] = [];
+
+  constructor(
+    private readonly ws: XLSX.WorkSheet,
+    private readonly sheetName: string
+  ) {}
+
+  cell(ref: CellRef): XLSX.CellObject | undefined {
+    return this.ws[XLSX.utils.encode_cell(ref)];
+  }
+
+  text(ref: CellRef): string {
+    const cell = this.cell(ref);
+    return cell && cell.v !== undefined ? String(cell.v).trim() : "";
+  }
+
+  address(ref: CellRef): string {
+    return `${this.sheetName}!${XLSX.utils.encode_cell(ref)}`;
+  }
+
+  report(ref: CellRef, message: string) {
+    this.problems.push(`${this.address(ref)}: ${message}`);
+  }
+
+  range(): XLSX.Range {
+    return XLSX.utils.decode_range(this.ws["!ref"] || "A1");
+  }
+
+  /** All cells whose text matches the pattern, in reading order */
+  findAll(pattern: RegExp): CellRef[] {
+    const range = this.range();
+    const found: CellRef[] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (pattern.test(this.text({ r, c }))) found.push({ r, c });
+      }
+    }
+    return found;
+  }
+
+  find(pattern: RegExp): CellRef | null {
+    return this.findAll(pattern)[0] || null;
+  }
+
+  /** The column in the given row whose text matches the pattern, or -1 */
+  columnIn(row: number, pattern: RegExp): number {
+    const range = this.range();
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      if (pattern.test(this.text({ r: row, c }))) return c;
+    }
+    return -1;
+  }
+
+  /** The first non-empty cell right of a label, skipping ":" separators */
+  valueRightOf(label: CellRef, maxColumns = 3): CellRef | null {
+    for (let c = label.c + 1; c <= label.c + maxColumns; c++) {
+      const text = this.text({ r: label.r, c });
+      if (text && text !== ":") return { r: label.r, c };
+    }
+    return null;
+  }
+
+  /**
+   * Parses a numeric cell. Exported cells hold text such as "18%",
+   * "3,150 kg" or "50 km/h", so the leading number is used and "%" divides by 100.
+   */
+  number(ref: CellRef | null, what: string): number | undefined {
+    if (!ref) return undefined;
+    const cell = this.cell(ref);
+    if (cell && typeof cell.v === "number") return cell.v;
+
+    const text = this.text(ref);
+    const match = text.replace(/,/g, "").match(/^-?\d+(\.\d+)?/);
+    if (!match) {
+      this.report(ref, `${what} "${text}" is not a number`);
+      return undefined;
+    }
+    const value = parseFloat(match[0]);
+    return text.includes("%") ? value / 100 : value;
+  }
+
+  /**
+   * Parses a numeric cell holding a quantity such as "7,050 lb" and converts
+   * it to the canonical unit. The unit is read from `unitRef`, which is the
+   * cell itself unless the sheet keeps units in a separate cell.
+   */
+  quantity(
+    ref: CellRef | null,
+    what: string,
+    quantity: Quantity,
+    unitRef: CellRef | null = ref
+  ): number | undefined {
+    const value = this.number(ref, what);
+    if (value === undefined || !unitRef) return value;
+    return fromDisplayUnit(quantity, value, unitsInText(this.text(unitRef)));
+  }
+
+  /** Parses a cell holding one of the labels of an option record */
+  option<T extends string>(
+    ref: CellRef | null,
+    labels: Record<T, string>,
+    what: string
+  ): T | undefined {
+    if (!ref) return undefined;
+    const text = this.text(ref);
+    const key = (Object.keys(labels) as T[]).find((k) => labels[k] === text);
+    if (!key) this.report(ref, `unknown ${what} "${text}"`);
+    return key;
+  }
+}
+
+const asTireCount = (
+  reader: SheetReader,
+  ref: CellRef,
+  count: number | undefined
+): number => {
+  if (count !== undefined && Number.isInteger(count) && count > 0) return count;
+  reader.report(
+    ref,
+    `could not determine tires per position${
+      count !== undefined ? ` (got ${count})` : ""
+    }; assumed 2`
+  );
+  return 2;
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+/**
+ * Reads the rule profile block of an exported sheet. Sheets exported before
+ * rule profiles existed only state the load verdict; the built-in profile
+ * with that verdict is used for them.
+ */
+function readRules(reader: SheetReader, fallback: RuleProfile): RuleProfile {
+  const verdictLabel = reader.find(/^Load Verdict:?$/);
+  const verdictMode =
+    reader.option(
+      verdictLabel && reader.valueRightOf(verdictLabel),
+      LOAD_VERDICT_MODE_LABELS,
+      "load verdict"
+    ) ?? fallback.verdictMode;
+
+  const nameLabel = reader.find(/^Rule Profile:?$/);
+  const nameRef = nameLabel && reader.valueRightOf(nameLabel);
+  if (!nameRef) {
+    return (
+      RULE_PROFILES.find((p) => p.verdictMode === verdictMode) || fallback
+    );
+  }
+
+  const rules: RuleProfile = {
+    ...fallback,
+    name: reader.text(nameRef),
+    verdictMode,
+    custom: undefined,
+  };
+  RULE_FIELDS.forEach(({ key, label }) => {
+    const fieldLabel = reader.find(
+      new RegExp(`^${escapeRegExp(label)}:?$`)
+    );
+    const value = reader.number(
+      fieldLabel && reader.valueRightOf(fieldLabel),
+      label
+    );
+    if (value !== undefined) rules[key] = value;
+  });
+  return rules;
+}
+
+/**
+ * Reads a sheet written by exportToExcelAdvanced, using its Summary table
+ * for the positions since it carries the most precise values.
+ */
+function readExportedSheet(
+  reader: SheetReader,
+  fallback: ScenarioInputs
+): ScenarioInputs | null {
+  const header = reader
+    .findAll(/^Position$/)
+    .find((ref) => reader.columnIn(ref.r, /^Load\/Tire$/) >= 0);
+  if (!header) return null;
+
+  const tireCol = reader.columnIn(header.r, /^Tire size \/ Pattern$/);
+  const distCol = reader.columnIn(header.r, /^Load Distribution$/);
+  const axleCol = reader.columnIn(header.r, /^Axle Load$/);
+  const loadPerTireCol = reader.columnIn(header.r, /^Load\/Tire$/);
+  // sheets exported before axle types and wheel splits lack these columns
+  const tiresCol = reader.columnIn(header.r, /^Tires$/);
+  const axleTypeCol = reader.columnIn(header.r, /^Axle$/);
+  const splitCol = reader.columnIn(header.r, /^Wheel Split$/);
+  const enteredCol = reader.columnIn(header.r, /^Entered Load$/);
+
+  const totalLoadLabel = reader.find(/^Total Load$/);
+  const totalLoadRef = totalLoadLabel && reader.valueRightOf(totalLoadLabel);
+  // the unit sits in its own cell next to the number
+  const totalLoad = reader.quantity(
+    totalLoadRef,
+    "Total Load",
+    "vehicleLoad",
+    totalLoadRef && { r: totalLoadRef.r, c: totalLoadRef.c + 1 }
+  );
+
+  const positions: ScenarioPosition[] = [];
+  for (let r = header.r + 1; ; r++) {
+    const idText = reader.text({ r, c: header.c });
+    if (!idText) break;
+
+    const tireSize =
+      tireCol >= 0 ? reader.text({ r, c: tireCol }) : fallback.tireSize;
+    const dist =
+      distCol >= 0
+        ? reader.number({ r, c: distCol }, "Load Distribution")
+        : undefined;
+    const axle =
+      axleCol >= 0
+        ? reader.quantity({ r, c: axleCol }, "Axle Load", "vehicleLoad")
+        : undefined;
+    const loadPerTire =
+      loadPerTireCol >= 0
+        ? reader.quantity({ r, c: loadPerTireCol }, "Load/Tire", "tireLoad")
+        : undefined;
+
+    const tires =
+      tiresCol >= 0
+        ? reader.number({ r, c: tiresCol }, "Tires")
+        : axle !== undefined && loadPerTire
+        ? Math.round((axle * 1000) / loadPerTire)
+        : undefined;
+    const axleText = axleTypeCol >= 0 ? reader.text({ r, c: axleTypeCol }) : "";
+    const axleFields = axleText ? parseAxle(axleText) : null;
+    if (axleText && !axleFields)
+      reader.report({ r, c: axleTypeCol }, `unknown axle "${axleText}"`);
+    const splitText = splitCol >= 0 ? reader.text({ r, c: splitCol }) : "";
+    const split = splitText ? parseWheelSplit(splitText) : null;
+    if (splitText && !split)
+      reader.report({ r, c: splitCol }, `unknown wheel split "${splitText}"`);
+
+    // the axle load and distribution are what the axle carries, with a raised
+    // lift axle's share moved to the others, so the load as entered is read
+    // where the sheet has it: a share ("30.00%") or an axle weight ("9.00 t")
+    const enteredRef = { r, c: enteredCol };
+    const enteredText = enteredCol >= 0 ? reader.text(enteredRef) : "";
+    const enteredIsShare = enteredText.includes("%");
+    const enteredShare = enteredIsShare
+      ? reader.number(enteredRef, "Entered Load")
+      : undefined;
+    const axleWeight =
+      enteredShare !== undefined && totalLoad
+        ? +(enteredShare * totalLoad).toFixed(2)
+        : enteredText && !enteredIsShare
+        ? reader.quantity(enteredRef, "Entered Load", "vehicleLoad")
+        : axle;
+
+    positions.push({
+      id: idText.replace(/^Position\s*/i, "") || String(positions.length + 1),
+      tireSize,
+      // the axle load has more precision than the whole-percent distribution
+      loadDistribution:
+        enteredShare ??
+        (axleWeight !== undefined && totalLoad
+          ? axleWeight / totalLoad
+          : dist ?? 0),
+      tiresPerPosition: asTireCount(reader, { r, c: header.c }, tires),
+      axleWeight,
+      ...axleFields,
+      ...split,
+    });
+  }
+
+  const speedLabel = reader.find(/^Ave\. Speed:?$/);
+  const loadInputLabel = reader.find(/^Load Input:?$/);
+  const compensationLabel = reader.find(/^Pressure Comp\.:?$/);
+  // sheets exported before the vehicle tire was recorded fit it to position 1
+  const vehicleTireLabel = reader.find(/^Vehicle Tire:?$/);
+  const vehicleTireRef =
+    vehicleTireLabel && reader.valueRightOf(vehicleTireLabel);
+
+  return {
+    tireSize: vehicleTireRef
+      ? reader.text(vehicleTireRef)
+      : positions[0]?.tireSize ?? fallback.tireSize,
+    totalLoad: totalLoad ?? fallback.totalLoad,
+    speed:
+      reader.quantity(
+        speedLabel && reader.valueRightOf(speedLabel),
+        "Ave. Speed",
+        "speed"
+      ) ?? fallback.speed,
+    loadInputMode:
+      reader.option(
+        loadInputLabel && reader.valueRightOf(loadInputLabel),
+        LOAD_INPUT_MODE_LABELS,
+        "load input"
+      ) ?? fallback.loadInputMode,
+    rules: readRules(reader, fallback.rules),
+    compensationRule:
+      reader.option(
+        compensationLabel && reader.valueRightOf(compensationLabel),
+        PRESSURE_COMPENSATION_RULE_LABELS,
+        "pressure compensation"
+      ) ?? fallback.compensationRule,
+    positions,
+  };
+}
+
+/**
+ * Reads the original "Load & IP" template. Only its first calculation block
+ * is imported; the tires per position come from the Load/Tire formula divisor.
+ */
+function readTemplateSheet(
+  reader: SheetReader,
+  fallback: ScenarioInputs
+): ScenarioInputs | null {
+  const totalLoadLabels = reader.findAll(/^Total Load$/);
+  const distLabel = reader.find(/^Load Distribution$/);
+  if (!totalLoadLabels.length || !distLabel) return null;
+  if (totalLoadLabels.length > 1) {
+    reader.problems.push(
+      `${reader.address(totalLoadLabels[1])}: the sheet has ${totalLoadLabels.length} calculation blocks; only the first was imported`
+    );
+  }
+
+  const totalLoadLabel = totalLoadLabels[0];
+  const totalLoad = reader.number(
+    reader.valueRightOf(totalLoadLabel),
+    "Total Load"
+  );
+  const loadPerTireLabel = reader.find(/^Load\/Tire$/);
+  const endRow =
+    totalLoadLabels.length > 1
+      ? totalLoadLabels[1].r
+      : Number.MAX_SAFE_INTEGER;
+
+  const positions: ScenarioPosition[] = [];
+  const lastRow = Math.min(endRow - 1, reader.range().e.r);
+  for (let r = distLabel.r + 1; r <= lastRow; r++) {
+    const distRef = { r, c: distLabel.c };
+    if (!reader.text(distRef)) continue;
+    const dist = reader.number(distRef, "Load Distribution");
+    if (dist === undefined || dist === 0) continue;
+
+    // "=+M6/2*1000" → 2 tires; fall back to axle load / load per tire
+    let tires: number | undefined;
+    if (loadPerTireLabel) {
+      const loadPerTireRef = { r, c: loadPerTireLabel.c };
+      const formula = reader.cell(loadPerTireRef)?.f || "";
+      const divisor = formula.match(/\/\s*(\d+)\s*\*\s*1000/);
+      if (divisor) {
+        tires = +divisor[1];
+      } else {
+        const loadPerTire = reader.number(loadPerTireRef, "Load/Tire");
+        if (loadPerTire && totalLoad)
+          tires = Math.round((totalLoad * dist * 1000) / loadPerTire);
+      }
+    }
+
+    positions.push({
+      id: String(positions.length + 1),
+      tireSize: "",
+      loadDistribution: dist,
+      tiresPerPosition: asTireCount(reader, distRef, tires),
+    });
+  }
+
+  const tireLabel = reader.find(/^Tire size \/ Pattern:?$/);
+  const tireRef = tireLabel && reader.valueRightOf(tireLabel);
+  const tireSize = tireRef ? reader.text(tireRef) : fallback.tireSize;
+  const speedLabel = reader.find(/^Ave\. Speed:?$/);
+
+  return {
+    ...fallback,
+    tireSize,
+    totalLoad: totalLoad ?? fallback.totalLoad,
+    speed:
+      reader.quantity(
+        speedLabel && reader.valueRightOf(speedLabel),
+        "Ave. Speed",
+        "speed"
+      ) ?? fallback.speed,
+    // the template only knows total load × distribution
+    loadInputMode: "distribution",
+    positions: positions.map((p) => ({ ...p, tireSize })),
+  };
+}
+
+/**
+ * Reads a workbook written by exportToExcelAdvanced or filled in from the
+ * original template and rebuilds the calculator inputs from it.
+ * Inputs the sheet does not carry keep their current values.
+ * @param {ArrayBuffer} buffer - The workbook file contents.
+ * @param {Tire[]} catalog - The tire catalog, to check the tire sizes against.
+ * @param {ScenarioInputs} fallback - The current inputs, used where the sheet has no value.
+ * @returns {ExcelImportResult} The imported inputs and every cell that could not be parsed.
+ */
+export function importFromExcel(
+  buffer: ArrayBuffer,
+  catalog: Tire[],
+  fallback: ScenarioInputs
+): ExcelImportResult {
+  let wb: XLSX.WorkBook;
+  try {
+    wb = XLSX.read(buffer, { type: "array", cellFormula: true });
+  } catch (err) {
+    return {
+      ok: false,
+      problems: [`Not a readable workbook: ${(err as Error).message}`],
+    };
+  }
+
+  for (const name of wb.SheetNames) {
+    const reader = new SheetReader(wb.Sheets[name], name);
+    const inputs =
+      readExportedSheet(reader, fallback) ||
+      readTemplateSheet(reader, fallback);
+    if (!inputs) continue;
+
+    if (!inputs.positions.length) {
+      return {
+        ok: false,
+        problems: [...reader.problems, `${name}: no positions found`],
+      };
+    }
+
+    // tires outside the catalog fall back to the current vehicle tire, each
+    // distinct size reported once, where it is first read
+    const known = new Set(catalog.map((t) => t["TIRE Size"]));
+    const checked = new Map<string, string>();
+    const checkTire = (size: string, where: string) => {
+      let checkedSize = checked.get(size);
+      if (checkedSize === undefined) {
+        checkedSize = known.has(size) ? size : fallback.tireSize;
+        if (checkedSize !== size) {
+          reader.problems.push(
+            `${where}: tire "${size}" is not in the catalog; "${fallback.tireSize}" is used`
+          );
+        }
+        checked.set(size, checkedSize);
+      }
+      return checkedSize;
+    };
+    inputs.tireSize = checkTire(inputs.tireSize, `${name} tire size`);
+    inputs.positions = inputs.positions.map((p) => ({
+      ...p,
+      tireSize: checkTire(p.tireSize, `${name} position ${p.id}`),
+    }));
+
+    // values that parsed but are out of range fail the import, as they would
+    // when opening a scenario file
+    const invalid: string[] = [];
+    validateScenarioInputs(inputs, invalid);
+    if (invalid.length) {
+      return {
+        ok: false,
+        problems: [
+          ...reader.problems,
+          ...invalid.map((error) => `${name}: ${error}`),
+        ],
+      };
+    }
+
+    return { ok: true, inputs, problems: reader.problems };
+  }
+
+  return {
+    ok: false,
+    problems: [
+      "No Load & I/P calculation sheet found (expected an exported sheet or the original template)",
+    ],
+  };
+}
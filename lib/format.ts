@@ -0,0 +1,61 @@
+import type { CheckResult, DamageResult, LoadRating } from "./calc";
+import { TIRE_FITMENT_LABELS } from "./calc";
+
+/**
+ * Formats a fraction as a whole percentage, e.g. 0.234 → "23%".
+ * @param {number} fraction - The value as a fraction (1 = 100%).
+ * @returns {string} The percentage text.
+ */
+export function formatPercent(fraction: number): string {
+  return `${(fraction * 100).toFixed(0)}%`;
+}
+
+/**
+ * The display text of a load check, as used in the original template.
+ * @param {CheckResult} result - The load check, from calcResultLoad or calcResultLoadBySpeed.
+ * @returns {string} "OK", "Caution" or "Over Load".
+ */
+export function formatLoadResult(result: CheckResult): string {
+  if (result.status === "ok") return "OK";
+  return result.status === "caution" ? "Caution" : "Over Load";
+}
+
+/**
+ * The display text of a pressure check, as used in the original template.
+ * @param {CheckResult} result - The pressure check, from calcResultIP.
+ * @param {boolean} [short] - Use "CONSULT" where space is tight.
+ * @returns {string} "OK", "Caution" or "CONSULT TO BS".
+ */
+export function formatIPResult(result: CheckResult, short = false): string {
+  if (result.status === "ok") return "OK";
+  if (result.status === "caution") return "Caution";
+  return short ? "CONSULT" : "CONSULT TO BS";
+}
+
+/**
+ * The display text of a damage estimate.
+ * @param {DamageResult} result - The damage estimate, from calcDamage.
+ * @returns {string} "OK" within the threshold, otherwise the exceedance, e.g. "23%".
+ */
+export function formatDamage(result: DamageResult): string {
+  return result.exceedance === null ? "OK" : formatPercent(result.exceedance);
+}
+
+/**
+ * Describes a position's fitment and where its load rating came from.
+ * @param {LoadRating} rating - The rating, from getLoadRating.
+ * @returns {string} E.g. "Single", "Dual (dual rating)" or "Dual (derated 88%)".
+ */
+export function formatFitment(rating: LoadRating): string {
+  const fitment = TIRE_FITMENT_LABELS[rating.fitment];
+  switch (rating.source) {
+    case "single":
+      return fitment;
+    case "dual":
+      return `${fitment} (dual rating)`;
+    case "derated":
+      return `${fitment} (derated ${+(rating.factor * 100).toFixed(1)}%)`;
+    case "singleForDual":
+      return `${fitment} (no dual rating, single used)`;
+  }
+}
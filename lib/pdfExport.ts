@@ -1,56 +1,159 @@
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-import type { Tire, TireData } from "./calc";
+import type { AxleType } from "./axles";
+import {
+  formatAxle,
+  formatWheel,
+  formatWheelSplit,
+  formatWheelSplitWarning,
+  hasWheelSplit,
+} from "./axles";
+import type {
+  CheckResult,
+  DamageResult,
+  LoadRating,
+  PressureCompensationRule,
+  Tire,
+  TireData,
+  WheelCalc,
+} from "./calc";
+import {
+  LOAD_VERDICT_MODE_LABELS,
+  PRESSURE_COMPENSATION_RULE_LABELS,
+  formatSpeedRangeWarning,
+  indexSpeedTable,
+  isSpeedRowInUse,
+  lookupSpeedRow,
+  worstCheck,
+} from "./calc";
+import type { ComparisonColumn, DeltaTone } from "./comparison";
+import { buildComparisonRows } from "./comparison";
+import type { LoadInputMode } from "./distribution";
+import {
+  LOAD_INPUT_MODE_LABELS,
+  formatDistributionWarning,
+} from "./distribution";
+import {
+  formatDamage,
+  formatFitment,
+  formatIPResult,
+  formatLoadResult,
+  formatPercent,
+} from "./format";
+import type { ChartLayout, Sweep } from "./sensitivity";
+import {
+  SWEEP_CHART_TITLES,
+  SWEEP_VARIABLE_LABELS,
+  layoutSweepChart,
+} from "./sensitivity";
+import type { RuleProfile } from "./rules";
+import { RULE_FIELDS, formatRuleValue } from "./rules";
+import type { Quantity, UnitPreferences } from "./units";
+import {
+  DEFAULT_UNITS,
+  formatQuantity,
+  formatValue,
+  unitSymbol,
+} from "./units";
+import type { FrameLayout, FramePosition } from "./vehicleFrame";
+import { layoutVehicleFrame } from "./vehicleFrame";
 
 type TirePosition = {
   id: string;
+  tireSize: string;
   loadDistribution: number;
-  tiresPerPosition: 2 | 4;
+  tiresPerPosition: number;
+  axleWeight?: number;
+  axleType?: AxleType;
+  liftable?: boolean;
+  raised?: boolean;
+  leftShare?: number;
+  innerShare?: number;
 };
 
 type PositionResult = {
   position: TirePosition;
+  tire: Tire;
+  loadRating: LoadRating;
   row: { speed: number; psi: number; [key: string]: number };
+  loadPerPositionTon: number;
   loadPerTire: number;
   limitLoad: number;
   ipByETRTO: number;
-  resultLoad: string;
-  resultIP: string;
-  damage: { load: string; ip: string };
+  ipCompensated: number;
+  resultLoad: CheckResult;
+  resultLoadSpeed: CheckResult;
+  resultLoadLegacy: CheckResult;
+  resultIP: CheckResult;
+  resultIPCompensated: CheckResult;
+  damage: { load: DamageResult; ip: DamageResult };
+  wheels: WheelCalc[];
 };
 
 /**
  * Generates and downloads a PDF document with a detailed tire load and inflation pressure analysis.
  * The PDF includes vehicle and tire information, a visual representation of the vehicle frame,
  * a table of position-specific calculations, and a speed variation table.
+ * Every distinct tire fitted to the vehicle is listed with the positions it is fitted to.
  * It uses jsPDF and jspdf-autotable to construct the document.
  *
  * @param {TireData} data - The complete tire dataset, including the speed table.
- * @param {Tire} selectedTire - The specific tire model selected for the calculation.
  * @param {number} totalLoad - The total vehicle load in tons.
+ * @param {LoadInputMode} loadInputMode - Whether the load was entered as distribution fractions or axle weights.
  * @param {number} speed - The average vehicle speed in km/h.
+ * @param {RuleProfile} rules - The thresholds the results were evaluated under, including which load limit decides the verdict.
+ * @param {PressureCompensationRule} compensationRule - How the recommended cold I/P was compensated for speed.
  * @param {TirePosition[]} positions - An array of vehicle axle positions and their configurations.
  * @param {PositionResult[]} positionResults - An array of calculation results for each position.
+ * @param {UnitPreferences} [units] - The units values are written in; t, kg, psi and km/h by default.
+ * @param {Sweep | null} [sweep] - A sensitivity sweep to chart on its own page.
  * @returns {void} This function does not return a value; it triggers a file download.
  */
 export function exportToPDF(
   data: TireData,
-  selectedTire: Tire,
   totalLoad: number,
+  loadInputMode: LoadInputMode,
   speed: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule,
   positions: TirePosition[],
-  positionResults: PositionResult[]
+  positionResults: PositionResult[],
+  units: UnitPreferences = DEFAULT_UNITS,
+  sweep: Sweep | null = null
 ) {
+  const { verdictMode } = rules;
+  const speedLookup = lookupSpeedRow(indexSpeedTable(data), speed);
+  const fmt = (quantity: Quantity, value: number, decimals?: number) =>
+    formatQuantity(quantity, value, units, decimals);
+  const speedWarning = formatSpeedRangeWarning(speedLookup, speed, (kmh) =>
+    fmt("speed", kmh)
+  );
+  const distributionWarning = formatDistributionWarning(positions);
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   let yPos = 20;
 
+  // Distinct tires in position order
+  const fittedTires = positionResults
+    .map((r) => r.tire)
+    .filter((t, idx, all) => all.findIndex((o) => o["TIRE Size"] === t["TIRE Size"]) === idx);
+
   // Title
   doc.setFontSize(18);
   doc.setFont("helvetica", "bold");
   doc.text("Load & I/P Calculation", pageWidth / 2, yPos, { align: "center" });
   yPos += 15;
 
+  if (distributionWarning) {
+    doc.setFillColor(255, 193, 193);
+    doc.rect(14, yPos - 5, pageWidth - 28, 8, "F");
+    doc.setFontSize(10);
+    doc.setTextColor(192, 0, 0);
+    doc.text(distributionWarning, pageWidth / 2, yPos, { align: "center" });
+    doc.setTextColor(0, 0, 0);
+    yPos += 10;
+  }
+
   // Vehicle Info
   doc.setFontSize(12);
   doc.setFont("helvetica", "bold");
@@ -59,9 +162,32 @@ export function exportToPDF(
 
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
-  doc.text(`Total Load: ${totalLoad} Ton`, 14, yPos);
+  doc.text(`Total Load: ${fmt("vehicleLoad", totalLoad)}`, 14, yPos);
+  yPos += 6;
+  doc.text(`Load Input: ${LOAD_INPUT_MODE_LABELS[loadInputMode]}`, 14, yPos);
+  yPos += 6;
+  doc.text(`Speed: ${fmt("speed", speed)}`, 14, yPos);
+  yPos += 6;
+  if (speedWarning) {
+    doc.setTextColor(192, 0, 0);
+    doc.text(speedWarning, 14, yPos);
+    doc.setTextColor(0, 0, 0);
+    yPos += 6;
+  }
+  doc.text(`Rule Profile: ${rules.name}`, 14, yPos);
   yPos += 6;
-  doc.text(`Speed: ${speed} km/h`, 14, yPos);
+  doc.text(`Load Verdict: ${LOAD_VERDICT_MODE_LABELS[verdictMode]}`, 14, yPos);
+  yPos += 6;
+  // limits on one line, caution bands on the next
+  [RULE_FIELDS.slice(0, 3), RULE_FIELDS.slice(3)].forEach((fields) => {
+    doc.text(
+      fields.map(({ key, label }) => `${label}: ${formatRuleValue(rules[key])}`).join("   "),
+      14,
+      yPos
+    );
+    yPos += 6;
+  });
+  doc.text(`Pressure Compensation: ${PRESSURE_COMPENSATION_RULE_LABELS[compensationRule]}`, 14, yPos);
   yPos += 10;
 
   // Tire Info
@@ -72,111 +198,81 @@ export function exportToPDF(
 
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
-  doc.text(`Tire Size / Pattern: ${selectedTire["TIRE Size"]}`, 14, yPos);
-  yPos += 6;
-  doc.text(`Load Index: ${selectedTire["LOAD INDEX"]} Kg`, 14, yPos);
-  yPos += 6;
-  doc.text(`STD I/P: ${selectedTire["STD I/P"]} Psi`, 14, yPos);
-  yPos += 6;
-  doc.text(`Speed Symbol: ${selectedTire["Speed symbol"]}`, 14, yPos);
-  yPos += 10;
+  fittedTires.forEach((tire) => {
+    const fittedTo = positionResults
+      .filter((r) => r.tire["TIRE Size"] === tire["TIRE Size"])
+      .map((r) => `P${r.position.id}`)
+      .join(", ");
+    doc.text(`Tire Size / Pattern: ${tire["TIRE Size"]} (${fittedTo})`, 14, yPos);
+    yPos += 6;
+    doc.text(`Load Index: ${fmt("tireLoad", tire["LOAD INDEX"])}`, 14, yPos);
+    yPos += 6;
+    doc.text(`STD I/P: ${fmt("pressure", tire["STD I/P"])}`, 14, yPos);
+    yPos += 6;
+    doc.text(`Speed Symbol: ${tire["Speed symbol"]}`, 14, yPos);
+    yPos += 10;
+  });
 
-  // Vehicle Frame Visualization
+  // Vehicle Frame Visualization, laid out as in the app
+  const frame = layoutVehicleFrame(
+    positions,
+    positions.map((_, idx) => {
+      const result = positionResults[idx];
+      return result
+        ? worstCheck([
+            result.resultLoad,
+            result.resultIP,
+            result.resultIPCompensated,
+          ])?.status ?? null
+        : null;
+    })
+  );
+  // Keep the heading and the whole frame on one page where it fits
+  const pageBottom = doc.internal.pageSize.getHeight() - 15;
+  if (yPos + 8 + frame.height > pageBottom) {
+    doc.addPage();
+    yPos = 20;
+  }
   doc.setFontSize(12);
   doc.setFont("helvetica", "bold");
   doc.text(`Vehicle Frame (${positions.length} positions)`, 14, yPos);
   yPos += 8;
 
-  // Draw frame for each position
-  const frameStartX = 25;
-  const frameStartY = yPos;
-  const wheelWidth = 4;
-  const wheelHeight = 8;
-  const wheelGap = 1;
-  const tandemSetGap = 4;
-  const positionSpacing = 16;
-  const badgeRadius = 4;
-  
-  // Calculate fixed positions for alignment
-  const maxLeftWheelsWidth = wheelWidth * 4 + wheelGap + tandemSetGap; // Tandem width
-  const centerX = frameStartX + maxLeftWheelsWidth + 8; // Fixed center position
-  const rightWheelsStartX = centerX + 8; // Fixed right wheels start
-
-  positions.forEach((pos, idx) => {
-    const currentY = frameStartY + idx * positionSpacing;
-    const wheelCenterY = currentY + wheelHeight / 2;
-    
-    // Left wheels - aligned to right edge
-    doc.setFillColor(60, 60, 60);
-    if (pos.tiresPerPosition === 2) {
-      // Single axle - 2 wheels (align right)
-      const singleStartX = centerX - 8 - (wheelWidth * 2 + wheelGap);
-      doc.rect(singleStartX, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(singleStartX + wheelWidth + wheelGap, currentY, wheelWidth, wheelHeight, "F");
-      
-      // Left axle line
-      doc.setDrawColor(150, 150, 150);
-      doc.setLineWidth(0.5);
-      doc.line(singleStartX + wheelWidth * 2 + wheelGap + 1, wheelCenterY, centerX - badgeRadius - 1, wheelCenterY);
-    } else {
-      // Tandem axle - 4 wheels (full width)
-      const tandemStartX = frameStartX;
-      doc.rect(tandemStartX, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(tandemStartX + wheelWidth + wheelGap, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(tandemStartX + wheelWidth * 2 + wheelGap + tandemSetGap, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(tandemStartX + wheelWidth * 3 + wheelGap + tandemSetGap, currentY, wheelWidth, wheelHeight, "F");
-      
-      // Left axle line
-      doc.setDrawColor(150, 150, 150);
-      doc.setLineWidth(0.5);
-      doc.line(tandemStartX + maxLeftWheelsWidth + 1, wheelCenterY, centerX - badgeRadius - 1, wheelCenterY);
-    }
-
-    // Position badge (fixed center)
-    doc.setFillColor(66, 139, 202);
-    doc.circle(centerX, wheelCenterY, badgeRadius, "F");
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(8);
-    doc.setFont("helvetica", "bold");
-    doc.text(`P${pos.id}`, centerX, wheelCenterY + 1, { align: "center" });
-    doc.setTextColor(0, 0, 0);
-
-    // Right wheels - aligned to left edge
-    doc.setFillColor(60, 60, 60);
-    if (pos.tiresPerPosition === 2) {
-      // Single axle - 2 wheels
-      doc.rect(rightWheelsStartX, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(rightWheelsStartX + wheelWidth + wheelGap, currentY, wheelWidth, wheelHeight, "F");
-      
-      // Right axle line
-      doc.setDrawColor(150, 150, 150);
-      doc.setLineWidth(0.5);
-      doc.line(centerX + badgeRadius + 1, wheelCenterY, rightWheelsStartX - 1, wheelCenterY);
-    } else {
-      // Tandem axle - 4 wheels
-      doc.rect(rightWheelsStartX, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(rightWheelsStartX + wheelWidth + wheelGap, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(rightWheelsStartX + wheelWidth * 2 + wheelGap + tandemSetGap, currentY, wheelWidth, wheelHeight, "F");
-      doc.rect(rightWheelsStartX + wheelWidth * 3 + wheelGap + tandemSetGap, currentY, wheelWidth, wheelHeight, "F");
-      
-      // Right axle line
-      doc.setDrawColor(150, 150, 150);
-      doc.setLineWidth(0.5);
-      doc.line(centerX + badgeRadius + 1, wheelCenterY, rightWheelsStartX - 1, wheelCenterY);
+  // Draw the frame position by position with its details beside it, carrying
+  // on over the next page if it is taller than a page
+  const frameX = 23;
+  const textX = frameX + frame.width + 3;
+  let frameY = yPos;
+  frame.positions.forEach((framePos, idx) => {
+    const { bounds } = framePos;
+    if (frameY + bounds.y + bounds.height > pageBottom) {
+      doc.addPage();
+      frameY = 20 - bounds.y;
     }
+    drawFramePosition(doc, frame, framePos, frameX, frameY);
 
-    // Position info text (fixed position)
+    const pos = positions[idx];
+    const result = positionResults[idx];
+    // the share carried, which is 0% for a raised lift axle
+    const share = (result?.position ?? pos).loadDistribution;
+    const badgeY = frameY + framePos.badge.y;
     doc.setFontSize(8);
     doc.setFont("helvetica", "normal");
-    const textX = rightWheelsStartX + maxLeftWheelsWidth + 5;
     doc.text(
-      `${(pos.loadDistribution * 100).toFixed(0)}% - ${pos.tiresPerPosition === 2 ? "Single" : "Tandem"}`,
+      `${(share * 100).toFixed(0)}% - ${formatAxle(pos)} (${pos.tiresPerPosition} tires)`,
       textX,
-      wheelCenterY + 1
+      badgeY - 1
     );
+    if (result) {
+      doc.text(
+        `${formatFitment(result.loadRating)}, rated ${fmt("tireLoad", result.loadRating.rating)}`,
+        textX,
+        badgeY + 3
+      );
+    }
   });
 
-  yPos = frameStartY + positions.length * positionSpacing + 10;
+  yPos = frameY + frame.height + 8;
 
   // Position Results Table
   doc.setFontSize(12);
@@ -185,14 +281,19 @@ export function exportToPDF(
   yPos += 5;
 
   const positionData = positionResults.map((result) => [
-    `Position ${result.position.id}`,
+    `P${result.position.id}`,
+    result.tire["TIRE Size"],
     `${(result.position.loadDistribution * 100).toFixed(0)}%`,
-    `${result.loadPerTire.toFixed(2)} Kg`,
-    `${result.ipByETRTO.toFixed(1)} Psi`,
-    result.resultLoad,
-    result.resultIP === "OK" ? "OK" : "CONSULT TO BS",
-    result.damage.load,
-    result.damage.ip,
+    fmt("vehicleLoad", result.loadPerPositionTon),
+    fmt("tireLoad", result.loadPerTire, 2),
+    fmt("tireLoad", result.limitLoad),
+    fmt("pressure", result.ipByETRTO),
+    fmt("pressure", result.ipCompensated),
+    formatLoadResult(result.resultLoadSpeed),
+    formatLoadResult(result.resultLoadLegacy),
+    formatIPResult(result.resultIP),
+    formatDamage(result.damage.load),
+    formatDamage(result.damage.ip),
   ]);
 
   autoTable(doc, {
@@ -200,46 +301,70 @@ export function exportToPDF(
     head: [
       [
         "Position",
+        "Tire Size",
         "Load Dist.",
+        "Axle Load",
         "Load/Tire",
+        "Limit Load",
         "I/P by ETRTO",
-        "Result Load",
+        "Rec. Cold I/P",
+        "Result Load (Speed)",
+        `Result Load (${formatPercent(rules.legacyLoadLimit)})`,
         "Result I/P",
         "Dmg Load",
         "Dmg I/P",
       ],
     ],
     body: positionData,
-    styles: { fontSize: 8, cellPadding: 2 },
+    styles: { fontSize: 7, cellPadding: 1.5 },
     headStyles: { fillColor: [66, 139, 202], textColor: 255, fontStyle: "bold" },
     columnStyles: {
-      0: { cellWidth: 22 },
-      1: { cellWidth: 20 },
-      2: { cellWidth: 22 },
-      3: { cellWidth: 25 },
-      4: { cellWidth: 22 },
-      5: { cellWidth: 25 },
-      6: { cellWidth: 20 },
-      7: { cellWidth: 20 },
+      0: { cellWidth: 10 },
+      1: { cellWidth: 22 },
+      2: { cellWidth: 11 },
+      3: { cellWidth: 12 },
+      4: { cellWidth: 14 },
+      5: { cellWidth: 14 },
+      6: { cellWidth: 13 },
+      7: { cellWidth: 13 },
+      8: { cellWidth: 15 },
+      9: { cellWidth: 15 },
+      10: { cellWidth: 17 },
+      11: { cellWidth: 12 },
+      12: { cellWidth: 12 },
     },
     didParseCell: (data) => {
-      if (data.section === "body" && data.column.index === 4) {
-        if (data.cell.text[0] === "Over Load") {
-          data.cell.styles.textColor = [255, 0, 0];
-          data.cell.styles.fontStyle = "bold";
-        } else if (data.cell.text[0] === "OK") {
-          data.cell.styles.textColor = [0, 128, 0];
-          data.cell.styles.fontStyle = "bold";
-        }
+      // Highlight the verdict column that drives Result Load / Damage Load
+      const activeVerdictColumn = verdictMode === "speed" ? 8 : 9;
+      if (data.section === "head" && data.column.index === activeVerdictColumn) {
+        data.cell.styles.fillColor = [31, 78, 121];
       }
-      if (data.section === "body" && data.column.index === 5) {
-        if (data.cell.text[0] === "CONSULT TO BS") {
-          data.cell.styles.textColor = [255, 140, 0];
-          data.cell.styles.fontStyle = "bold";
-        } else if (data.cell.text[0] === "OK") {
-          data.cell.styles.textColor = [0, 128, 0];
-          data.cell.styles.fontStyle = "bold";
-        }
+      if (data.section !== "body") return;
+      const result = positionResults[data.row.index];
+      // a recommended cold I/P near or past the I/P limit
+      if (data.column.index === 7 && result.resultIPCompensated.status !== "ok") {
+        data.cell.styles.textColor =
+          result.resultIPCompensated.status === "caution" ? [191, 144, 0] : [255, 140, 0];
+        data.cell.styles.fontStyle = "bold";
+      }
+      // color the verdict columns 8-10 by status, not by their text
+      const check = [
+        result.resultLoadSpeed,
+        result.resultLoadLegacy,
+        result.resultIP,
+      ][data.column.index - 8];
+      if (check) {
+        // over-pressure needs a consultation, over-load is a failure
+        data.cell.styles.textColor =
+          check.status === "ok"
+            ? [0, 128, 0]
+            : check.status === "caution"
+            ? [191, 144, 0]
+            : data.column.index === 10
+            ? [255, 140, 0]
+            : [255, 0, 0];
+        if (check.status === "caution") data.cell.styles.fillColor = [255, 242, 204];
+        data.cell.styles.fontStyle = "bold";
       }
     },
   });
@@ -247,6 +372,75 @@ export function exportToPDF(
   // @ts-expect-error autoTable extends jsPDF
   yPos = doc.lastAutoTable.finalY + 15;
 
+  // Wheel Loads of positions with an uneven split; the table above shows the heaviest wheel
+  const wheelRows = positionResults
+    .filter((result) => hasWheelSplit(result.position))
+    .flatMap((result) =>
+      result.wheels.map((wheel) => ({ result, wheel }))
+    );
+  if (wheelRows.length) {
+    if (yPos > 240) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text("Wheel Loads", 14, yPos);
+    yPos += 5;
+
+    doc.setFontSize(8);
+    doc.setTextColor(192, 0, 0);
+    positionResults.forEach((result) => {
+      const warning = formatWheelSplitWarning(result.position);
+      if (!warning) return;
+      doc.text(`P${result.position.id}: ${warning}`, 14, yPos);
+      yPos += 4;
+    });
+    doc.setTextColor(0, 0, 0);
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [["Position", "Split", "Wheel", "Tires", "Load/Tire", "I/P by ETRTO", "Rec. Cold I/P", "Result Load", "Result I/P"]],
+      body: wheelRows.map(({ result, wheel }) => [
+        `P${result.position.id}`,
+        formatWheelSplit(result.position),
+        formatWheel(wheel),
+        String(wheel.tires),
+        fmt("tireLoad", wheel.loadPerTire, 2),
+        fmt("pressure", wheel.ipByETRTO),
+        fmt("pressure", wheel.ipCompensated),
+        formatLoadResult(wheel.resultLoad),
+        formatIPResult(wheel.resultIP, true),
+      ]),
+      styles: { fontSize: 7, cellPadding: 1.5 },
+      headStyles: { fillColor: [66, 139, 202], textColor: 255, fontStyle: "bold" },
+      didParseCell: (data) => {
+        if (data.section !== "body") return;
+        const { wheel } = wheelRows[data.row.index];
+        if (data.column.index === 6 && wheel.resultIPCompensated.status !== "ok") {
+          data.cell.styles.textColor =
+            wheel.resultIPCompensated.status === "caution" ? [191, 144, 0] : [255, 140, 0];
+          data.cell.styles.fontStyle = "bold";
+        }
+        const check = [wheel.resultLoad, wheel.resultIP][data.column.index - 7];
+        if (check) {
+          data.cell.styles.textColor =
+            check.status === "ok"
+              ? [0, 128, 0]
+              : check.status === "caution"
+              ? [191, 144, 0]
+              : data.column.index === 8
+              ? [255, 140, 0]
+              : [255, 0, 0];
+          data.cell.styles.fontStyle = "bold";
+        }
+      },
+    });
+
+    // @ts-expect-error autoTable extends jsPDF
+    yPos = doc.lastAutoTable.finalY + 15;
+  }
+
   // Speed Table
   if (yPos > 200) {
     doc.addPage();
@@ -258,20 +452,21 @@ export function exportToPDF(
   doc.text("Variasi Kapasitas Pembebanan (%)", 14, yPos);
   yPos += 5;
 
-  const speedData = data.speed_table.map((row) => [
-    row.speed.toString(),
+  const speedRows = data.speed_table;
+  const speedData = speedRows.map((row) => [
+    formatValue("speed", row.speed, units),
     row.F ? `${(row.F * 100).toFixed(0)}%` : "",
     row.G ? `${(row.G * 100).toFixed(0)}%` : "",
     row.J ? `${(row.J * 100).toFixed(0)}%` : "",
     row.K ? `${(row.K * 100).toFixed(0)}%` : "",
     row.L ? `${(row.L * 100).toFixed(0)}%` : "",
     row.M ? `${(row.M * 100).toFixed(0)}%` : "",
-    `${row.psi} Psi`,
+    fmt("pressure", row.psi),
   ]);
 
   autoTable(doc, {
     startY: yPos,
-    head: [["Speed (km/h)", "F", "G", "J", "K", "L", "M", "Kompensasi Tekanan"]],
+    head: [[`Speed (${unitSymbol("speed", units)})`, "F", "G", "J", "K", "L", "M", "Kompensasi Tekanan"]],
     body: speedData,
     styles: { fontSize: 7, cellPadding: 1.5, halign: "center" },
     headStyles: { fillColor: [100, 100, 100], textColor: 255, fontStyle: "bold" },
@@ -279,10 +474,9 @@ export function exportToPDF(
       0: { cellWidth: 20, fontStyle: "bold" },
     },
     didParseCell: (data) => {
-      // Highlight current speed row
+      // Highlight the row(s) the current speed was looked up from
       if (data.section === "body" && data.row.index < data.table.body.length) {
-        const rowSpeed = parseInt(speedData[data.row.index][0]);
-        if (rowSpeed === speed) {
+        if (isSpeedRowInUse(speedLookup, speedRows[data.row.index])) {
           data.cell.styles.fillColor = [255, 230, 230];
           data.cell.styles.fontStyle = "bold";
         }
@@ -290,6 +484,30 @@ export function exportToPDF(
     },
   });
 
+  // Sensitivity charts
+  if (sweep) {
+    doc.addPage();
+    yPos = 20;
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(`Sensitivity: ${SWEEP_VARIABLE_LABELS[sweep.variable]}`, 14, yPos);
+    yPos += 5;
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.text("Solid lines are the values, dashed lines their limits; circles mark where a position goes over.", 14, yPos);
+    yPos += 6;
+
+    (["load", "ip"] as const).forEach((kind) => {
+      doc.setFontSize(10);
+      doc.setFont("helvetica", "bold");
+      doc.text(SWEEP_CHART_TITLES[kind], 14, yPos);
+      yPos += 3;
+      const layout = layoutSweepChart(sweep, kind, pageWidth - 28, 100, units);
+      drawChart(doc, layout, 14, yPos);
+      yPos += layout.height + 10;
+    });
+  }
+
   // Footer
   const pageCount = doc.getNumberOfPages();
   for (let i = 1; i <= pageCount; i++) {
@@ -310,9 +528,212 @@ export function exportToPDF(
   }
 
   // Generate filename
-  const tireSizeClean = selectedTire["TIRE Size"].replace(/[\/\\]/g, "-");
+  const tireLabel = fittedTires.length === 1 ? fittedTires[0]["TIRE Size"] : "Mixed";
+  const tireSizeClean = tireLabel.replace(/[\/\\]/g, "-");
   const dateStr = new Date().toISOString().split("T")[0];
   const filename = `Load_IP_Calc_${tireSizeClean}_${dateStr}.pdf`;
 
   doc.save(filename);
 }
+
+/**
+ * Draws a chart laid out by layoutSweepChart, in mm from the given corner.
+ * @param {jsPDF} doc - The document to draw on.
+ * @param {ChartLayout} layout - The chart, in mm.
+ * @param {number} x - The left edge on the page.
+ * @param {number} y - The top edge on the page.
+ * @returns {void} This function does not return a value.
+ */
+function drawChart(doc: jsPDF, layout: ChartLayout, x: number, y: number) {
+  const { plot } = layout;
+  doc.setFontSize(6);
+  doc.setFont("helvetica", "normal");
+  doc.setLineDashPattern([], 0);
+
+  // grid and ticks
+  doc.setDrawColor(220, 220, 220);
+  doc.setLineWidth(0.1);
+  layout.yTicks.forEach((tick) => {
+    doc.line(x + plot.left, y + tick.at, x + plot.right, y + tick.at);
+    doc.text(tick.label, x + plot.left - 1, y + tick.at + 1, { align: "right" });
+  });
+  layout.xTicks.forEach((tick) => {
+    doc.text(tick.label, x + tick.at, y + plot.bottom + 4, { align: "center" });
+  });
+  doc.setDrawColor(120, 120, 120);
+  doc.setLineWidth(0.3);
+  doc.line(x + plot.left, y + plot.bottom, x + plot.right, y + plot.bottom);
+  doc.line(x + plot.left, y + plot.top, x + plot.left, y + plot.bottom);
+  doc.text(layout.xLabel, x + (plot.left + plot.right) / 2, y + plot.bottom + 9, { align: "center" });
+  doc.text(layout.yLabel, x + 2, y + (plot.top + plot.bottom) / 2, { angle: 90, align: "center" });
+
+  if (layout.currentX !== null) {
+    doc.setDrawColor(150, 150, 150);
+    doc.setLineDashPattern([0.6, 0.6], 0);
+    doc.line(x + layout.currentX, y + plot.top, x + layout.currentX, y + plot.bottom);
+  }
+
+  layout.lines.forEach((line) => {
+    doc.setDrawColor(...line.color);
+    doc.setLineWidth(line.dashed ? 0.3 : 0.5);
+    doc.setLineDashPattern(line.dashed ? [1.5, 1] : [], 0);
+    line.points.slice(1).forEach(([px, py], i) => {
+      const [qx, qy] = line.points[i];
+      doc.line(x + qx, y + qy, x + px, y + py);
+    });
+  });
+  doc.setLineDashPattern([], 0);
+
+  layout.markers.forEach((marker) => {
+    doc.setDrawColor(...marker.color);
+    doc.setFillColor(255, 255, 255);
+    doc.setLineWidth(0.5);
+    doc.circle(x + marker.x, y + marker.y, 1.2, "FD");
+    doc.setTextColor(...marker.color);
+    doc.text(marker.label, x + marker.x + 1.8, y + marker.y - 1.5);
+  });
+
+  // legend along the top right of the plot
+  let legendX = x + plot.right;
+  [...layout.legend].reverse().forEach((item) => {
+    doc.setTextColor(...item.color);
+    const width = doc.getTextWidth(item.label);
+    legendX -= width;
+    doc.text(item.label, legendX, y + plot.top + 3);
+    doc.setDrawColor(...item.color);
+    doc.line(legendX - 5, y + plot.top + 2, legendX - 1, y + plot.top + 2);
+    legendX -= 8;
+  });
+  doc.setTextColor(0, 0, 0);
+}
+
+/**
+ * Draws one position of a vehicle frame laid out by layoutVehicleFrame, with
+ * the frame's top left corner at x, y.
+ */
+function drawFramePosition(
+  doc: jsPDF,
+  layout: FrameLayout,
+  pos: FramePosition,
+  x: number,
+  y: number
+) {
+  // axle lines, covered by the badge in the middle
+  doc.setDrawColor(150, 150, 150);
+  doc.setLineWidth(0.5);
+  doc.setLineDashPattern(pos.raised ? [1, 1] : [], 0);
+  pos.axleYs.forEach((axleY) => {
+    doc.line(x + layout.axleFrom, y + axleY, x + layout.axleTo, y + axleY);
+  });
+  doc.setLineDashPattern([], 0);
+
+  doc.setFillColor(60, 60, 60);
+  doc.setDrawColor(60, 60, 60);
+  doc.setLineWidth(0.3);
+  pos.wheels.forEach((wheel) => {
+    doc.rect(x + wheel.x, y + wheel.y, wheel.width, wheel.height, pos.raised ? "S" : "F");
+  });
+
+  doc.setFillColor(...pos.color);
+  doc.circle(x + pos.badge.x, y + pos.badge.y, pos.badge.r, "F");
+  if (pos.liftable) {
+    doc.setDrawColor(255, 255, 255);
+    doc.setLineDashPattern([0.8, 0.6], 0);
+    doc.circle(x + pos.badge.x, y + pos.badge.y, pos.badge.r - 0.8, "S");
+    doc.setLineDashPattern([], 0);
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  doc.text(`P${pos.id}`, x + pos.badge.x, y + pos.badge.y + 1, { align: "center" });
+  doc.setTextColor(0, 0, 0);
+}
+
+// Fill colors for cells that differ from the baseline scenario
+const DELTA_FILLS: Record<DeltaTone, [number, number, number] | null> = {
+  better: [198, 239, 206],
+  worse: [255, 199, 206],
+  changed: [221, 235, 247],
+  same: null,
+};
+
+/**
+ * Generates and downloads a PDF comparing pinned scenarios side by side, with
+ * each value's difference from the baseline scenario highlighted.
+ *
+ * @param {ComparisonColumn[]} columns - The pinned scenarios and their results, baseline first.
+ * @param {UnitPreferences} [units] - The units values are written in; t, kg, psi and km/h by default.
+ * @returns {void} This function does not return a value; it triggers a file download.
+ */
+export function exportComparisonToPDF(
+  columns: ComparisonColumn[],
+  units: UnitPreferences = DEFAULT_UNITS
+) {
+  // landscape leaves room for several scenarios
+  const doc = new jsPDF({ orientation: "landscape" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const rows = buildComparisonRows(columns, units);
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text("Scenario Comparison", pageWidth / 2, 20, { align: "center" });
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.text("Differences are against the first scenario.", pageWidth / 2, 27, { align: "center" });
+
+  autoTable(doc, {
+    startY: 33,
+    head: [
+      [
+        "",
+        "",
+        ...columns.map((c, idx) => (idx === 0 ? `${c.pinned.name} (baseline)` : c.pinned.name)),
+      ],
+    ],
+    // name each section once, on its first row
+    body: rows.map((r, idx) => [
+      idx > 0 && rows[idx - 1].section === r.section ? "" : r.section,
+      r.label,
+      ...r.cells.map((cell) => cell.text),
+    ]),
+    styles: { fontSize: 7, cellPadding: 1.5 },
+    headStyles: { fillColor: [66, 139, 202], textColor: 255, fontStyle: "bold" },
+    columnStyles: {
+      0: { cellWidth: 22, fontStyle: "bold" },
+      1: { cellWidth: 26 },
+    },
+    didParseCell: (data) => {
+      if (data.section !== "body" || data.column.index < 2) return;
+      const cell = rows[data.row.index].cells[data.column.index - 2];
+      data.cell.styles.halign = "right";
+      const fill = DELTA_FILLS[cell.tone];
+      if (fill) data.cell.styles.fillColor = fill;
+      if (cell.status) {
+        data.cell.styles.textColor =
+          cell.status === "ok" ? [0, 128, 0] : cell.status === "caution" ? [191, 144, 0] : [255, 0, 0];
+        data.cell.styles.fontStyle = "bold";
+      }
+    },
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.text(
+      `Page ${i} of ${pageCount}`,
+      pageWidth / 2,
+      doc.internal.pageSize.getHeight() - 10,
+      { align: "center" }
+    );
+    doc.text(
+      `Generated: ${new Date().toLocaleString()}`,
+      14,
+      doc.internal.pageSize.getHeight() - 10
+    );
+  }
+
+  const dateStr = new Date().toISOString().split("T")[0];
+  doc.save(`Load_IP_Comparison_${dateStr}.pdf`);
+}
@@ -0,0 +1,195 @@
+import type { AxleType } from "./axles";
+import { AXLE_TYPE_LABELS } from "./axles";
+
+export type PresetPosition = {
+  loadDistribution: number;
+  tiresPerPosition: number;
+  axleType?: AxleType;
+  liftable?: boolean;
+};
+
+export type VehiclePreset = {
+  name: string;
+  positions: PresetPosition[];
+  /** True for presets saved by the user in this browser */
+  custom?: boolean;
+};
+
+/**
+ * Built-in vehicle layouts, front axle first.
+ * Distributions are typical laden splits and total 100%.
+ */
+export const VEHICLE_PRESETS: VehiclePreset[] = [
+  {
+    name: "4x2 Truck (6 tires)",
+    positions: [
+      { loadDistribution: 0.35, tiresPerPosition: 2 },
+      { loadDistribution: 0.65, tiresPerPosition: 4 },
+    ],
+  },
+  {
+    name: "6x2 Truck with Tag Axle (8 tires)",
+    positions: [
+      { loadDistribution: 0.25, tiresPerPosition: 2 },
+      { loadDistribution: 0.5, tiresPerPosition: 4 },
+      { loadDistribution: 0.25, tiresPerPosition: 2 },
+    ],
+  },
+  {
+    name: "6x4 Dump Truck (10 tires)",
+    positions: [
+      { loadDistribution: 0.2, tiresPerPosition: 2 },
+      { loadDistribution: 0.4, tiresPerPosition: 4 },
+      { loadDistribution: 0.4, tiresPerPosition: 4 },
+    ],
+  },
+  {
+    name: "8x4 Dump Truck (12 tires)",
+    positions: [
+      { loadDistribution: 0.15, tiresPerPosition: 2 },
+      { loadDistribution: 0.15, tiresPerPosition: 2 },
+      { loadDistribution: 0.35, tiresPerPosition: 4 },
+      { loadDistribution: 0.35, tiresPerPosition: 4 },
+    ],
+  },
+  {
+    name: "4x2 Tractor + Tandem Semi-trailer (14 tires)",
+    positions: [
+      { loadDistribution: 0.15, tiresPerPosition: 2 },
+      { loadDistribution: 0.35, tiresPerPosition: 4 },
+      { loadDistribution: 0.25, tiresPerPosition: 4 },
+      { loadDistribution: 0.25, tiresPerPosition: 4 },
+    ],
+  },
+  {
+    name: "6x4 Tractor + Tri-axle Semi-trailer (22 tires)",
+    positions: [
+      { loadDistribution: 0.1, tiresPerPosition: 2 },
+      { loadDistribution: 0.18, tiresPerPosition: 4 },
+      { loadDistribution: 0.18, tiresPerPosition: 4 },
+      { loadDistribution: 0.18, tiresPerPosition: 4 },
+      { loadDistribution: 0.18, tiresPerPosition: 4 },
+      { loadDistribution: 0.18, tiresPerPosition: 4 },
+    ],
+  },
+  {
+    name: "6x2 Truck with Lift Axle (8 tires)",
+    positions: [
+      { loadDistribution: 0.3, tiresPerPosition: 2 },
+      { loadDistribution: 0.5, tiresPerPosition: 4 },
+      {
+        loadDistribution: 0.2,
+        tiresPerPosition: 2,
+        axleType: "single",
+        liftable: true,
+      },
+    ],
+  },
+  {
+    name: "4x2 Tractor + Super Single Tridem Semi-trailer (12 tires)",
+    positions: [
+      { loadDistribution: 0.15, tiresPerPosition: 2 },
+      { loadDistribution: 0.35, tiresPerPosition: 4 },
+      { loadDistribution: 0.5, tiresPerPosition: 6, axleType: "superSingle" },
+    ],
+  },
+  {
+    name: "2-Axle Full Trailer (8 tires)",
+    positions: [
+      { loadDistribution: 0.5, tiresPerPosition: 4 },
+      { loadDistribution: 0.5, tiresPerPosition: 4 },
+    ],
+  },
+];
+
+const CUSTOM_PRESETS_KEY = "load-ip-calc.customPresets";
+
+// Whether a stored value is a preset the calculator can apply
+function isValidPreset(value: unknown): value is VehiclePreset {
+  const preset = value as Partial<VehiclePreset> | null;
+  return (
+    typeof preset?.name === "string" &&
+    !!preset.name &&
+    Array.isArray(preset.positions) &&
+    preset.positions.length > 0 &&
+    preset.positions.every(
+      (p: Partial<PresetPosition> | null) =>
+        typeof p?.loadDistribution === "number" &&
+        Number.isFinite(p.loadDistribution) &&
+        p.loadDistribution >= 0 &&
+        Number.isInteger(p.tiresPerPosition) &&
+        (p.tiresPerPosition as number) > 0 &&
+        (p.axleType === undefined || p.axleType in AXLE_TYPE_LABELS) &&
+        (p.liftable === undefined || typeof p.liftable === "boolean")
+    )
+  );
+}
+
+/**
+ * Reads the user's custom presets from the browser's localStorage.
+ * Missing or unreadable storage yields an empty list, and presets that no
+ * longer validate are dropped.
+ * @returns {VehiclePreset[]} The custom presets.
+ */
+export function loadCustomPresets(): VehiclePreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_PRESETS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(isValidPreset).map((p) => ({ ...p, custom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeCustomPresets(presets: VehiclePreset[]) {
+  window.localStorage.setItem(
+    CUSTOM_PRESETS_KEY,
+    JSON.stringify(
+      presets.map(({ name, positions }) => ({ name, positions }))
+    )
+  );
+}
+
+/**
+ * Saves a custom preset to localStorage, replacing any custom preset with the same name.
+ * @param {string} name - The preset name.
+ * @param {PresetPosition[]} positions - The positions to store; extra fields are dropped.
+ * @returns {VehiclePreset[]} The updated list of custom presets.
+ */
+export function saveCustomPreset(
+  name: string,
+  positions: PresetPosition[]
+): VehiclePreset[] {
+  const preset: VehiclePreset = {
+    name,
+    positions: positions.map(
+      ({ loadDistribution, tiresPerPosition, axleType, liftable }) => ({
+        loadDistribution,
+        tiresPerPosition,
+        axleType,
+        liftable,
+      })
+    ),
+    custom: true,
+  };
+  const presets = [
+    ...loadCustomPresets().filter((p) => p.name !== name),
+    preset,
+  ];
+  storeCustomPresets(presets);
+  return presets;
+}
+
+/**
+ * Removes a custom preset from localStorage.
+ * @param {string} name - The name of the preset to remove.
+ * @returns {VehiclePreset[]} The updated list of custom presets.
+ */
+export function deleteCustomPreset(name: string): VehiclePreset[] {
+  const presets = loadCustomPresets().filter((p) => p.name !== name);
+  storeCustomPresets(presets);
+  return presets;
+}
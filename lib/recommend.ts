@@ -0,0 +1,134 @@
+import type {
+  CheckStatus,
+  PositionCalc,
+  PositionLoad,
+  PressureCompensationRule,
+  SpeedSymbol,
+  Tire,
+  TireData,
+} from "./calc";
+import {
+  calcPosition,
+  getSpeedTableBasePsi,
+  indexSpeedTable,
+  lookupSpeedRow,
+  worstCheck,
+} from "./calc";
+import type { RuleProfile } from "./rules";
+
+/**
+ * How one catalog tire would do if it were fitted to every position.
+ * Headrooms are 1 − the highest ratio over the positions, so 0.2 means the
+ * tightest position is 20% below its threshold and negative means over it.
+ */
+export type TireRecommendation = {
+  tire: Tire;
+  /** The per-position results, in the order of the input positions */
+  results: PositionCalc[];
+  /** True if no position is over its load or I/P limit */
+  passes: boolean;
+  /** The worst load or I/P status over the positions */
+  status: CheckStatus;
+  loadHeadroom: number;
+  ipHeadroom: number;
+  /** The smaller of the load and I/P headroom */
+  margin: number;
+  /** The highest speed in the table the tire's speed symbol is rated for, in km/h */
+  ratedSpeed: number;
+};
+
+/** The columns recommendations can be sorted by */
+export type RecommendationSortKey =
+  | "margin"
+  | "loadHeadroom"
+  | "ipHeadroom"
+  | "ratedSpeed"
+  | "size";
+
+export const RECOMMENDATION_SORT_LABELS: Record<RecommendationSortKey, string> =
+  {
+    margin: "Margin",
+    loadHeadroom: "Load headroom",
+    ipHeadroom: "I/P headroom",
+    ratedSpeed: "Rated speed",
+    size: "Tire size",
+  };
+
+/**
+ * Runs the per-position calculation for every tire in the catalog, as if it
+ * were fitted to all positions, and ranks the tires by their margin.
+ * @param {TireData} data - The catalog and speed table.
+ * @param {PositionLoad[]} positions - The positions' load shares and tire counts.
+ * @param {number} totalLoad - The total vehicle load in tons.
+ * @param {number} speed - The vehicle speed in km/h.
+ * @param {RuleProfile} rules - The thresholds to check against.
+ * @param {PressureCompensationRule} compensationRule - How the cold I/P is compensated for speed.
+ * @returns {TireRecommendation[]} Every tire, passing tires first, then by margin.
+ */
+export function recommendTires(
+  data: TireData,
+  positions: PositionLoad[],
+  totalLoad: number,
+  speed: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule
+): TireRecommendation[] {
+  const { row } = lookupSpeedRow(indexSpeedTable(data), speed);
+  const basePsi = getSpeedTableBasePsi(data);
+
+  const recommendations = data.tires.map((tire) => {
+    const results = positions.map((pos) =>
+      calcPosition(tire, pos, totalLoad, row, basePsi, rules, compensationRule)
+    );
+    const worstLoad = worstCheck(results.map((r) => r.resultLoad));
+    const worstIP = worstCheck(results.map((r) => r.resultIP));
+    const status =
+      worstCheck(results.flatMap((r) => [r.resultLoad, r.resultIP]))?.status ??
+      "ok";
+    const loadHeadroom = 1 - (worstLoad?.ratio ?? 0);
+    const ipHeadroom = 1 - (worstIP?.ratio ?? 0);
+    const symbol = tire["Speed symbol"] as SpeedSymbol;
+    const ratedSpeed = Math.max(
+      0,
+      ...data.speed_table.filter((r) => r[symbol] > 0).map((r) => r.speed)
+    );
+    return {
+      tire,
+      results,
+      passes: status !== "over",
+      status,
+      loadHeadroom,
+      ipHeadroom,
+      margin: Math.min(loadHeadroom, ipHeadroom),
+      ratedSpeed,
+    };
+  });
+  return sortRecommendations(recommendations, "margin");
+}
+
+/**
+ * Sorts recommendations by a column, keeping passing tires before failing ones.
+ * Numbers sort from the largest headroom or speed down, ties going to the larger
+ * margin and then the higher rated speed; sizes sort A–Z.
+ * @param {TireRecommendation[]} recommendations - The recommendations to sort.
+ * @param {RecommendationSortKey} key - The column to sort by.
+ * @param {boolean} [reverse] - Reverse the usual order.
+ * @returns {TireRecommendation[]} A sorted copy.
+ */
+export function sortRecommendations(
+  recommendations: TireRecommendation[],
+  key: RecommendationSortKey,
+  reverse = false
+): TireRecommendation[] {
+  const compare = (a: TireRecommendation, b: TireRecommendation) =>
+    key === "size"
+      ? a.tire["TIRE Size"].localeCompare(b.tire["TIRE Size"])
+      : b[key] - a[key] ||
+        b.margin - a.margin ||
+        b.ratedSpeed - a.ratedSpeed;
+  return [...recommendations].sort(
+    (a, b) =>
+      Number(b.passes) - Number(a.passes) ||
+      (reverse ? -compare(a, b) : compare(a, b))
+  );
+}
@@ -0,0 +1,195 @@
+import type { LoadVerdictMode } from "./calc";
+import {
+  DEFAULT_IP_LIMIT,
+  DEFAULT_LEGACY_LOAD_LIMIT,
+  LOAD_VERDICT_MODE_LABELS,
+} from "./calc";
+
+/**
+ * A named set of safety rules that results are evaluated under.
+ * Limits are fractions of the tire's rating; caution bands are fractions of
+ * the limit at which a warning starts, before the limit fails.
+ */
+export type RuleProfile = {
+  name: string;
+  /** Which limit decides the load verdict */
+  verdictMode: LoadVerdictMode;
+  /** Allowed load as a fraction of the speed-table limit, e.g. 1 */
+  speedLoadLimit: number;
+  /** Allowed load as a fraction of the load index for the legacy rule, e.g. 1.15 */
+  legacyLoadLimit: number;
+  /** Allowed I/P by ETRTO as a fraction of STD I/P, e.g. 1.1 */
+  ipLimit: number;
+  /** Load caution starts at this fraction of the load limit, e.g. 0.9 */
+  loadCaution: number;
+  /** I/P caution starts at this fraction of the I/P limit, e.g. 0.95 */
+  ipCaution: number;
+  /** True for profiles saved by the user in this browser */
+  custom?: boolean;
+};
+
+/** The numeric rule fields, in the order they are shown and exported */
+export const RULE_FIELDS: {
+  key: keyof Pick<
+    RuleProfile,
+    "speedLoadLimit" | "legacyLoadLimit" | "ipLimit" | "loadCaution" | "ipCaution"
+  >;
+  label: string;
+}[] = [
+  { key: "speedLoadLimit", label: "Speed Load Limit" },
+  { key: "legacyLoadLimit", label: "Legacy Load Limit" },
+  { key: "ipLimit", label: "I/P Limit" },
+  { key: "loadCaution", label: "Load Caution From" },
+  { key: "ipCaution", label: "I/P Caution From" },
+];
+
+/**
+ * Built-in profiles. The first one is the default.
+ */
+export const RULE_PROFILES: RuleProfile[] = [
+  {
+    name: "Standard (speed table)",
+    verdictMode: "speed",
+    speedLoadLimit: 1,
+    legacyLoadLimit: DEFAULT_LEGACY_LOAD_LIMIT,
+    ipLimit: DEFAULT_IP_LIMIT,
+    loadCaution: 0.9,
+    ipCaution: 0.95,
+  },
+  {
+    name: "Original template (115% LI)",
+    verdictMode: "legacy",
+    speedLoadLimit: 1,
+    legacyLoadLimit: DEFAULT_LEGACY_LOAD_LIMIT,
+    ipLimit: DEFAULT_IP_LIMIT,
+    loadCaution: 0.9,
+    ipCaution: 0.95,
+  },
+  {
+    name: "Mining, conservative",
+    verdictMode: "speed",
+    speedLoadLimit: 0.95,
+    legacyLoadLimit: 1.05,
+    ipLimit: 1.05,
+    loadCaution: 0.85,
+    ipCaution: 0.9,
+  },
+];
+
+/**
+ * Formats a rule value as a percentage, keeping fractional percents, e.g. 0.975 → "97.5%".
+ * @param {number} value - The rule value as a fraction.
+ * @returns {string} The percentage text.
+ */
+export function formatRuleValue(value: number): string {
+  return `${+(value * 100).toFixed(2)}%`;
+}
+
+/**
+ * Checks whether two profiles apply the same rules, ignoring their names.
+ * @param {RuleProfile} a - A profile.
+ * @param {RuleProfile} b - Another profile.
+ * @returns {boolean} True if every rule matches.
+ */
+export function isSameRules(a: RuleProfile, b: RuleProfile): boolean {
+  return (
+    a.verdictMode === b.verdictMode &&
+    RULE_FIELDS.every(({ key }) => a[key] === b[key])
+  );
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a rule profile, pushing a message with its path for every invalid field.
+ * @param {unknown} value - The profile to check.
+ * @param {string} path - Where the profile sits, e.g. "rules".
+ * @param {string[]} errors - Receives the problems found.
+ * @returns {void} Problems are appended to `errors`.
+ */
+export function validateRuleProfile(
+  value: unknown,
+  path: string,
+  errors: string[]
+) {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.name !== "string" || !value.name)
+    errors.push(`${path}.name must be a non-empty string`);
+  if (
+    typeof value.verdictMode !== "string" ||
+    !(value.verdictMode in LOAD_VERDICT_MODE_LABELS)
+  )
+    errors.push(
+      `${path}.verdictMode must be one of ${Object.keys(LOAD_VERDICT_MODE_LABELS)
+        .map((k) => `"${k}"`)
+        .join(", ")}`
+    );
+  RULE_FIELDS.forEach(({ key }) => {
+    const field = value[key];
+    if (typeof field !== "number" || !Number.isFinite(field) || field <= 0)
+      errors.push(`${path}.${key} must be a positive number`);
+  });
+}
+
+const CUSTOM_RULE_PROFILES_KEY = "load-ip-calc.ruleProfiles";
+
+/**
+ * Reads the user's custom rule profiles from the browser's localStorage.
+ * Missing or unreadable storage yields an empty list, and profiles that no
+ * longer validate are dropped.
+ * @returns {RuleProfile[]} The custom profiles.
+ */
+export function loadCustomRuleProfiles(): RuleProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_RULE_PROFILES_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p) => {
+        const errors: string[] = [];
+        validateRuleProfile(p, "", errors);
+        return !errors.length;
+      })
+      .map((p: RuleProfile) => ({ ...p, custom: true }));
+  } catch {
+    return [];
+  }
+}
+
+function storeCustomRuleProfiles(profiles: RuleProfile[]) {
+  window.localStorage.setItem(
+    CUSTOM_RULE_PROFILES_KEY,
+    // the custom flag is implied by where the profile is stored
+    JSON.stringify(profiles.map((p) => ({ ...p, custom: undefined })))
+  );
+}
+
+/**
+ * Saves a custom rule profile, replacing any custom profile with the same name.
+ * @param {RuleProfile} profile - The profile to store.
+ * @returns {RuleProfile[]} The updated list of custom profiles.
+ */
+export function saveCustomRuleProfile(profile: RuleProfile): RuleProfile[] {
+  const profiles = [
+    ...loadCustomRuleProfiles().filter((p) => p.name !== profile.name),
+    { ...profile, custom: true },
+  ];
+  storeCustomRuleProfiles(profiles);
+  return profiles;
+}
+
+/**
+ * Removes a custom rule profile from localStorage.
+ * @param {string} name - The name of the profile to remove.
+ * @returns {RuleProfile[]} The updated list of custom profiles.
+ */
+export function deleteCustomRuleProfile(name: string): RuleProfile[] {
+  const profiles = loadCustomRuleProfiles().filter((p) => p.name !== name);
+  storeCustomRuleProfiles(profiles);
+  return profiles;
+}
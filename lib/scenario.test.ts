@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import type { Tire } from "./calc";
+import { RULE_PROFILES } from "./rules";
+import type { ScenarioInputs } from "./scenario";
+import {
+  SCENARIO_FORMAT,
+  SCENARIO_VERSION,
+  createScenario,
+  mergeScenarioTires,
+  parseScenario,
+} from "./scenario";
+
+const TIRES: Tire[] = [
+  {
+    "TIRE Size": "10.00-20 16 EMSA",
+    "LOAD INDEX": 3000,
+    "STD I/P": 115,
+    "Speed symbol": "J",
+  },
+  {
+    "TIRE Size": "11.00-20 16 EMSA",
+    "LOAD INDEX": 3350,
+    "STD I/P": 115,
+    "Speed symbol": "J",
+  },
+];
+
+const INPUTS: ScenarioInputs = {
+  tireSize: "10.00-20 16 EMSA",
+  totalLoad: 30,
+  speed: 40,
+  loadInputMode: "distribution",
+  rules: RULE_PROFILES[0],
+  compensationRule: "proportional",
+  positions: [
+    {
+      id: "1",
+      tireSize: "10.00-20 16 EMSA",
+      loadDistribution: 0.2,
+      tiresPerPosition: 2,
+    },
+    {
+      id: "2",
+      tireSize: "11.00-20 16 EMSA",
+      loadDistribution: 0.8,
+      tiresPerPosition: 8,
+      axleType: "dual",
+    },
+  ],
+};
+
+describe("parseScenario", () => {
+  it("reads back a saved scenario", () => {
+    const scenario = createScenario(INPUTS, TIRES);
+    expect(scenario.tires).toEqual(TIRES);
+    expect(parseScenario(JSON.stringify(scenario))).toEqual({
+      ok: true,
+      scenario,
+    });
+  });
+
+  it("rejects files that are not scenarios", () => {
+    expect(parseScenario("{")).toMatchObject({ ok: false });
+    expect(parseScenario('{"format":"other"}')).toEqual({
+      ok: false,
+      errors: ["Not a Load & I/P scenario file"],
+    });
+  });
+
+  it("rejects scenarios saved by a newer release", () => {
+    const scenario = createScenario(INPUTS, TIRES);
+    const result = parseScenario(
+      JSON.stringify({ ...scenario, version: SCENARIO_VERSION + 1 })
+    );
+    expect(result).toMatchObject({ ok: false });
+  });
+
+  it("reports every invalid field with its path", () => {
+    const scenario = createScenario(INPUTS, TIRES);
+    const result = parseScenario(
+      JSON.stringify({
+        ...scenario,
+        totalLoad: -1,
+        rules: { ...scenario.rules, ipLimit: 0 },
+        positions: [
+          { ...INPUTS.positions[0], tiresPerPosition: 0 },
+          { ...INPUTS.positions[1], leftShare: 1.5 },
+        ],
+      })
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "totalLoad must be a number ≥ 0",
+        "rules.ipLimit must be a positive number",
+        "positions[0].tiresPerPosition must be a positive integer",
+        "positions[1].leftShare must be a number from 0 to 1",
+      ],
+    });
+  });
+
+  it("requires the tires of every position to be embedded", () => {
+    const scenario = createScenario(INPUTS, TIRES.slice(0, 1));
+    expect(parseScenario(JSON.stringify(scenario))).toEqual({
+      ok: false,
+      errors: [
+        'positions[1].tireSize "11.00-20 16 EMSA" has no record in tires',
+      ],
+    });
+  });
+});
+
+describe("scenario migrations", () => {
+  // version 1 had a load verdict instead of a rule profile, and no axle types
+  const v1 = {
+    format: SCENARIO_FORMAT,
+    version: 1,
+    savedAt: "2025-01-01T00:00:00.000Z",
+    tireSize: "10.00-20 16 EMSA",
+    totalLoad: 30,
+    speed: 40,
+    loadInputMode: "distribution",
+    verdictMode: "legacy",
+    compensationRule: "proportional",
+    positions: [
+      {
+        id: "1",
+        tireSize: "10.00-20 16 EMSA",
+        loadDistribution: 0.2,
+        tiresPerPosition: 2,
+      },
+      {
+        id: "2",
+        tireSize: "10.00-20 16 EMSA",
+        loadDistribution: 0.8,
+        tiresPerPosition: 4,
+      },
+    ],
+    tires: TIRES.slice(0, 1),
+  };
+
+  it("upgrades a version 1 file to the current version", () => {
+    const result = parseScenario(JSON.stringify(v1));
+    if (!result.ok) throw new Error(result.errors.join("\n"));
+    const { scenario } = result;
+    expect(scenario.version).toBe(SCENARIO_VERSION);
+    expect(scenario).not.toHaveProperty("verdictMode");
+    expect(scenario.rules).toEqual(
+      RULE_PROFILES.find((p) => p.verdictMode === "legacy")
+    );
+    expect(scenario.positions).toEqual(v1.positions);
+  });
+
+  it("reports a version 1 load verdict it cannot carry over", () => {
+    expect(
+      parseScenario(JSON.stringify({ ...v1, verdictMode: "strict" }))
+    ).toEqual({
+      ok: false,
+      errors: ['verdictMode must be one of "speed", "legacy"'],
+    });
+  });
+});
+
+describe("mergeScenarioTires", () => {
+  it("adds missing tires and keeps the catalog values of known ones", () => {
+    const edited = { ...TIRES[0], "LOAD INDEX": 2900 };
+    const { tires, warnings } = mergeScenarioTires(
+      [TIRES[0]],
+      [edited, TIRES[1]]
+    );
+    expect(tires).toEqual(TIRES);
+    expect(warnings).toEqual([
+      'Tire "10.00-20 16 EMSA" differs from the catalog record; the catalog values are used.',
+      'Tire "11.00-20 16 EMSA" is not in the catalog; the record saved with the scenario is used.',
+    ]);
+  });
+});
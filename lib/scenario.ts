@@ -0,0 +1,341 @@
+import type { AxleType } from "./axles";
+import { AXLE_TYPE_LABELS } from "./axles";
+import type { PressureCompensationRule, Tire } from "./calc";
+import {
+  LOAD_VERDICT_MODE_LABELS,
+  PRESSURE_COMPENSATION_RULE_LABELS,
+} from "./calc";
+import type { LoadInputMode } from "./distribution";
+import { LOAD_INPUT_MODE_LABELS } from "./distribution";
+import { validateTire } from "./tireData";
+import type { RuleProfile } from "./rules";
+import { RULE_PROFILES, validateRuleProfile } from "./rules";
+
+export const SCENARIO_FORMAT = "load-ip-calc/scenario";
+export const SCENARIO_VERSION = 4;
+
+export type ScenarioPosition = {
+  id: string;
+  tireSize: string;
+  loadDistribution: number;
+  tiresPerPosition: number;
+  axleWeight?: number;
+  axleType?: AxleType;
+  liftable?: boolean;
+  raised?: boolean;
+  leftShare?: number;
+  innerShare?: number;
+};
+
+/**
+ * All calculator inputs, independent of the file format around them.
+ */
+export type ScenarioInputs = {
+  /** The vehicle-wide tire, used for new positions */
+  tireSize: string;
+  totalLoad: number;
+  speed: number;
+  loadInputMode: LoadInputMode;
+  /** The safety rules the results are evaluated under */
+  rules: RuleProfile;
+  compensationRule: PressureCompensationRule;
+  positions: ScenarioPosition[];
+};
+
+/**
+ * A saved scenario document. The tire records used are embedded so the file
+ * stays meaningful even if the catalog changes later.
+ */
+export type Scenario = ScenarioInputs & {
+  format: typeof SCENARIO_FORMAT;
+  version: typeof SCENARIO_VERSION;
+  savedAt: string;
+  tires: Tire[];
+};
+
+export type ScenarioParseResult =
+  | { ok: true; scenario: Scenario }
+  | { ok: false; errors: string[] };
+
+/**
+ * Upgrades a document of the given version to the next one. Fields a
+ * migration cannot carry over are reported in `errors`, as validation does.
+ * Add an entry here whenever SCENARIO_VERSION is bumped.
+ */
+const MIGRATIONS: Record<
+  number,
+  (doc: Record<string, unknown>, errors: string[]) => Record<string, unknown>
+> = {
+  // v2 replaced the load verdict mode with a full rule profile
+  1: ({ verdictMode, ...doc }, errors) => {
+    validateOneOf(verdictMode, LOAD_VERDICT_MODE_LABELS, "verdictMode", errors);
+    return {
+      ...doc,
+      rules:
+        RULE_PROFILES.find((p) => p.verdictMode === verdictMode) ||
+        RULE_PROFILES[0],
+    };
+  },
+  // v3 added axle types and lift axles; v2 positions are read by their tire count
+  2: (doc) => doc,
+  // v4 added uneven wheel splits; v3 positions are split evenly
+  3: (doc) => doc,
+};
+
+/**
+ * Builds a scenario document from the current inputs.
+ * @param {ScenarioInputs} inputs - The calculator inputs.
+ * @param {Tire[]} catalog - The tire catalog; records used by the inputs are embedded.
+ * @returns {Scenario} The scenario document.
+ */
+export function createScenario(
+  inputs: ScenarioInputs,
+  catalog: Tire[]
+): Scenario {
+  const used = new Set([
+    inputs.tireSize,
+    ...inputs.positions.map((p) => p.tireSize),
+  ]);
+  return {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    savedAt: new Date().toISOString(),
+    ...inputs,
+    tires: catalog.filter((t) => used.has(t["TIRE Size"])),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+function validatePosition(value: unknown, path: string, errors: string[]) {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.id !== "string" || !value.id)
+    errors.push(`${path}.id must be a non-empty string`);
+  if (typeof value.tireSize !== "string")
+    errors.push(`${path}.tireSize must be a string`);
+  if (!isFiniteNumber(value.loadDistribution) || value.loadDistribution < 0)
+    errors.push(`${path}.loadDistribution must be a number ≥ 0`);
+  if (
+    !Number.isInteger(value.tiresPerPosition) ||
+    (value.tiresPerPosition as number) < 1
+  )
+    errors.push(`${path}.tiresPerPosition must be a positive integer`);
+  if (value.axleType !== undefined)
+    validateOneOf(value.axleType, AXLE_TYPE_LABELS, `${path}.axleType`, errors);
+  (["liftable", "raised"] as const).forEach((key) => {
+    if (value[key] !== undefined && typeof value[key] !== "boolean")
+      errors.push(`${path}.${key} must be true or false`);
+  });
+  (["leftShare", "innerShare"] as const).forEach((key) => {
+    if (
+      value[key] !== undefined &&
+      (!isFiniteNumber(value[key]) ||
+        (value[key] as number) < 0 ||
+        (value[key] as number) > 1)
+    )
+      errors.push(`${path}.${key} must be a number from 0 to 1`);
+  });
+  if (
+    value.axleWeight !== undefined &&
+    (!isFiniteNumber(value.axleWeight) || value.axleWeight < 0)
+  )
+    errors.push(`${path}.axleWeight must be a number ≥ 0`);
+}
+
+function validateOneOf(
+  value: unknown,
+  allowed: Record<string, string>,
+  path: string,
+  errors: string[]
+) {
+  if (typeof value !== "string" || !(value in allowed))
+    errors.push(
+      `${path} must be one of ${Object.keys(allowed)
+        .map((k) => `"${k}"`)
+        .join(", ")}`
+    );
+}
+
+/**
+ * Validates the calculator inputs of a scenario, however they were read,
+ * collecting every problem with its path so the user can fix them in one go.
+ * @param {Record<string, unknown>} doc - The inputs, e.g. a scenario document.
+ * @param {string[]} errors - Receives a message for every problem found.
+ */
+export function validateScenarioInputs(
+  doc: Record<string, unknown>,
+  errors: string[]
+) {
+  if (typeof doc.tireSize !== "string")
+    errors.push("tireSize must be a string");
+  if (!isFiniteNumber(doc.totalLoad) || doc.totalLoad < 0)
+    errors.push("totalLoad must be a number ≥ 0");
+  if (!isFiniteNumber(doc.speed)) errors.push("speed must be a number");
+  validateOneOf(
+    doc.loadInputMode,
+    LOAD_INPUT_MODE_LABELS,
+    "loadInputMode",
+    errors
+  );
+  validateRuleProfile(doc.rules, "rules", errors);
+  validateOneOf(
+    doc.compensationRule,
+    PRESSURE_COMPENSATION_RULE_LABELS,
+    "compensationRule",
+    errors
+  );
+
+  if (!Array.isArray(doc.positions) || !doc.positions.length) {
+    errors.push("positions must be a non-empty array");
+  } else {
+    doc.positions.forEach((p, idx) =>
+      validatePosition(p, `positions[${idx}]`, errors)
+    );
+  }
+}
+
+/**
+ * Validates a current-version scenario document: its inputs and the tire
+ * records embedded for them.
+ */
+function validateScenario(doc: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  validateScenarioInputs(doc, errors);
+
+  if (!Array.isArray(doc.tires)) {
+    errors.push("tires must be an array");
+  } else {
+    doc.tires.forEach((t, idx) => validateTire(t, `tires[${idx}]`, errors));
+  }
+
+  // every tire referenced by a position must be embedded in the document
+  if (!errors.length) {
+    const embedded = new Set(
+      (doc.tires as Tire[]).map((t) => t["TIRE Size"])
+    );
+    (doc.positions as ScenarioPosition[]).forEach((p, idx) => {
+      if (!embedded.has(p.tireSize))
+        errors.push(
+          `positions[${idx}].tireSize "${p.tireSize}" has no record in tires`
+        );
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parses, migrates and validates a scenario file.
+ * @param {string} text - The file contents.
+ * @returns {ScenarioParseResult} The scenario, or every problem found in the file.
+ */
+export function parseScenario(text: string): ScenarioParseResult {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [`Not a valid JSON file: ${(err as Error).message}`],
+    };
+  }
+
+  if (!isRecord(doc) || doc.format !== SCENARIO_FORMAT) {
+    return { ok: false, errors: ["Not a Load & I/P scenario file"] };
+  }
+  if (!Number.isInteger(doc.version) || (doc.version as number) < 1) {
+    return { ok: false, errors: ["version must be a positive integer"] };
+  }
+  if ((doc.version as number) > SCENARIO_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `Scenario version ${doc.version} was saved by a newer release (this one reads up to version ${SCENARIO_VERSION})`,
+      ],
+    };
+  }
+
+  let migrated: Record<string, unknown> = doc;
+  const migrationErrors: string[] = [];
+  while ((migrated.version as number) < SCENARIO_VERSION) {
+    const from = migrated.version as number;
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      return {
+        ok: false,
+        errors: [`No migration from scenario version ${from}`],
+      };
+    }
+    migrated = { ...migrate(migrated, migrationErrors), version: from + 1 };
+  }
+
+  const errors = [...migrationErrors, ...validateScenario(migrated)];
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, scenario: migrated as Scenario };
+}
+
+/**
+ * Merges the tire records embedded in a scenario into the catalog.
+ * Records missing from the catalog are added; where a size exists in both but
+ * the values differ, the catalog record wins and a warning is reported.
+ * @param {Tire[]} catalog - The current tire catalog.
+ * @param {Tire[]} scenarioTires - The tire records embedded in the scenario.
+ * @returns {{tires: Tire[], warnings: string[]}} The merged catalog, sorted by size, and any warnings.
+ */
+export function mergeScenarioTires(
+  catalog: Tire[],
+  scenarioTires: Tire[]
+): { tires: Tire[]; warnings: string[] } {
+  const tires = [...catalog];
+  const warnings: string[] = [];
+
+  for (const tire of scenarioTires) {
+    const existing = tires.find((t) => t["TIRE Size"] === tire["TIRE Size"]);
+    if (!existing) {
+      tires.push(tire);
+      warnings.push(
+        `Tire "${tire["TIRE Size"]}" is not in the catalog; the record saved with the scenario is used.`
+      );
+    } else if (
+      existing["LOAD INDEX"] !== tire["LOAD INDEX"] ||
+      existing["STD I/P"] !== tire["STD I/P"] ||
+      existing["Speed symbol"] !== tire["Speed symbol"] ||
+      existing["DUAL LOAD"] !== tire["DUAL LOAD"] ||
+      existing["DUAL DERATING"] !== tire["DUAL DERATING"]
+    ) {
+      warnings.push(
+        `Tire "${tire["TIRE Size"]}" differs from the catalog record; the catalog values are used.`
+      );
+    }
+  }
+
+  tires.sort((a, b) => a["TIRE Size"].localeCompare(b["TIRE Size"]));
+  return { tires, warnings };
+}
+
+/**
+ * Triggers a download of the scenario as a JSON file.
+ * @param {Scenario} scenario - The scenario to save.
+ * @returns {void} This function does not return a value; it triggers a file download.
+ */
+export function downloadScenario(scenario: Scenario) {
+  const blob = new Blob([JSON.stringify(scenario, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const tireSizeClean = scenario.tireSize.replace(/[\/\\]/g, "-");
+  const dateStr = scenario.savedAt.split("T")[0];
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `Load_IP_Scenario_${tireSizeClean}_${dateStr}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,304 @@
+import type {
+  CheckResult,
+  PositionCalc,
+  PressureCompensationRule,
+  SolverPosition,
+  Tire,
+  TireData,
+} from "./calc";
+import {
+  calcPosition,
+  getSpeedTableBasePsi,
+  indexSpeedTable,
+  lookupSpeedRow,
+} from "./calc";
+import type { RuleProfile } from "./rules";
+import type { UnitPreferences } from "./units";
+import { formatQuantity, formatValue, unitSymbol } from "./units";
+
+/** The input a sensitivity sweep varies */
+export type SweepVariable = "totalLoad" | "speed";
+
+export const SWEEP_VARIABLE_LABELS: Record<SweepVariable, string> = {
+  totalLoad: "Total load",
+  speed: "Speed",
+};
+
+/** A position to sweep, with the tire fitted to it */
+export type SweepPosition = SolverPosition & { id: string };
+
+/** One sample of a position over the swept range */
+export type SweepPoint = {
+  /** The swept value: total load in tons or speed in km/h */
+  x: number;
+  /** Load per tire in kg */
+  loadPerTire: number;
+  /** The load the verdict allows per tire, in kg */
+  loadLimit: number;
+  ipByETRTO: number;
+  /** STD I/P × the rule profile's I/P limit, in psi */
+  ipLimit: number;
+};
+
+/** Where a value first goes over its limit within the swept range */
+export type Crossover = {
+  x: number;
+  /** The limit at the crossover, in kg or psi */
+  value: number;
+};
+
+export type PositionSweep = {
+  id: string;
+  tire: Tire;
+  points: SweepPoint[];
+  /** null if the load stays within its limit, or is over it from the start */
+  loadCrossover: Crossover | null;
+  /** null if the I/P stays within its limit, or is over it from the start */
+  ipCrossover: Crossover | null;
+};
+
+export type Sweep = {
+  variable: SweepVariable;
+  from: number;
+  to: number;
+  /** The calculator's current value of the swept input */
+  current: number;
+  positions: PositionSweep[];
+};
+
+// Samples over the range; crossovers are then refined between two samples
+const SWEEP_STEPS = 48;
+const CROSSOVER_ITERATIONS = 40;
+
+/**
+ * Re-runs the per-position calculation over a range of total loads or speeds,
+ * holding the other input fixed, and finds where each position's load and I/P
+ * cross their limits.
+ * @param {TireData} data - The catalog, for its speed table.
+ * @param {SweepPosition[]} positions - The positions with their tires and load shares.
+ * @param {SweepVariable} variable - The input to vary.
+ * @param {number} from - The start of the range, in tons or km/h.
+ * @param {number} to - The end of the range, in tons or km/h.
+ * @param {number} totalLoad - The total load in tons, used when sweeping speed.
+ * @param {number} speed - The speed in km/h, used when sweeping load.
+ * @param {RuleProfile} rules - The thresholds to check against.
+ * @param {PressureCompensationRule} compensationRule - How the cold I/P is compensated for speed.
+ * @returns {Sweep} The samples and crossovers of every position.
+ */
+export function sweepSensitivity(
+  data: TireData,
+  positions: SweepPosition[],
+  variable: SweepVariable,
+  from: number,
+  to: number,
+  totalLoad: number,
+  speed: number,
+  rules: RuleProfile,
+  compensationRule: PressureCompensationRule
+): Sweep {
+  const index = indexSpeedTable(data);
+  const basePsi = getSpeedTableBasePsi(data);
+  const calcAt = (pos: SweepPosition, x: number) =>
+    calcPosition(
+      pos.tire,
+      pos,
+      variable === "totalLoad" ? x : totalLoad,
+      lookupSpeedRow(index, variable === "speed" ? x : speed).row,
+      basePsi,
+      rules,
+      compensationRule
+    );
+  const xs = Array.from(
+    { length: SWEEP_STEPS + 1 },
+    (_, i) => from + ((to - from) * i) / SWEEP_STEPS
+  );
+
+  const crossover = (
+    pos: SweepPosition,
+    calcs: PositionCalc[],
+    check: (calc: PositionCalc) => CheckResult
+  ): Crossover | null => {
+    const i = calcs.findIndex((c) => check(c).status === "over");
+    if (i <= 0) return null;
+    let lo = xs[i - 1];
+    let hi = xs[i];
+    for (let n = 0; n < CROSSOVER_ITERATIONS; n++) {
+      const mid = (lo + hi) / 2;
+      if (check(calcAt(pos, mid)).status === "over") hi = mid;
+      else lo = mid;
+    }
+    return { x: hi, value: check(calcAt(pos, hi)).threshold };
+  };
+
+  return {
+    variable,
+    from,
+    to,
+    current: variable === "totalLoad" ? totalLoad : speed,
+    positions: positions.map((pos) => {
+      const calcs = xs.map((x) => calcAt(pos, x));
+      return {
+        id: pos.id,
+        tire: pos.tire,
+        points: calcs.map((c, i) => ({
+          x: xs[i],
+          loadPerTire: c.loadPerTire,
+          loadLimit: c.resultLoad.threshold,
+          ipByETRTO: c.ipByETRTO,
+          ipLimit: c.resultIP.threshold,
+        })),
+        loadCrossover: crossover(pos, calcs, (c) => c.resultLoad),
+        ipCrossover: crossover(pos, calcs, (c) => c.resultIP),
+      };
+    }),
+  };
+}
+
+/** Which pair of values a sweep chart plots */
+export type SweepChartKind = "load" | "ip";
+
+export const SWEEP_CHART_TITLES: Record<SweepChartKind, string> = {
+  load: "Load/Tire vs. Limit",
+  ip: "I/P by ETRTO vs. STD I/P × Limit",
+};
+
+export type Rgb = [number, number, number];
+
+// One color per position, repeating for long vehicles
+const SWEEP_COLORS: Rgb[] = [
+  [37, 99, 235],
+  [220, 38, 38],
+  [22, 163, 74],
+  [217, 119, 6],
+  [147, 51, 234],
+  [8, 145, 178],
+];
+
+export type ChartLine = {
+  color: Rgb;
+  /** Limits are dashed, values solid */
+  dashed: boolean;
+  points: [number, number][];
+};
+
+export type ChartTick = { at: number; label: string };
+
+export type ChartMarker = { x: number; y: number; color: Rgb; label: string };
+
+/**
+ * A chart laid out in its own coordinates, y pointing down, so the page's SVG
+ * and the PDF draw exactly the same thing.
+ */
+export type ChartLayout = {
+  width: number;
+  height: number;
+  plot: { left: number; top: number; right: number; bottom: number };
+  xLabel: string;
+  yLabel: string;
+  xTicks: ChartTick[];
+  yTicks: ChartTick[];
+  lines: ChartLine[];
+  /** The crossovers */
+  markers: ChartMarker[];
+  /** The x of the calculator's current value, or null if it is outside the range */
+  currentX: number | null;
+  legend: { color: Rgb; label: string }[];
+};
+
+const TICK_COUNT = 5;
+
+/**
+ * Lays out one chart of a sweep: each position's value as a solid line and
+ * its limit as a dashed line in the same color, with the crossovers marked.
+ * @param {Sweep} sweep - The sweep, from sweepSensitivity.
+ * @param {SweepChartKind} kind - Whether to plot the loads or the pressures.
+ * @param {number} width - The chart width, e.g. in mm for the PDF.
+ * @param {number} height - The chart height, in the same unit.
+ * @param {UnitPreferences} units - The units the axes are labelled in.
+ * @returns {ChartLayout} The chart in its own coordinates.
+ */
+export function layoutSweepChart(
+  sweep: Sweep,
+  kind: SweepChartKind,
+  width: number,
+  height: number,
+  units: UnitPreferences
+): ChartLayout {
+  const xQuantity = sweep.variable === "speed" ? "speed" : "vehicleLoad";
+  const yQuantity = kind === "load" ? "tireLoad" : "pressure";
+  const formatX = (x: number) => formatValue(xQuantity, x, units);
+  const plot = { left: 16, top: 4, right: width - 4, bottom: height - 14 };
+  const series = sweep.positions.map((pos) => ({
+    pos,
+    value: pos.points.map((p) =>
+      kind === "load" ? p.loadPerTire : p.ipByETRTO
+    ),
+    limit: pos.points.map((p) => (kind === "load" ? p.loadLimit : p.ipLimit)),
+    crossover: kind === "load" ? pos.loadCrossover : pos.ipCrossover,
+  }));
+  const yMax =
+    Math.max(0, ...series.flatMap((s) => [...s.value, ...s.limit])) * 1.05 ||
+    1;
+  const span = sweep.to - sweep.from || 1;
+  const toX = (x: number) =>
+    plot.left + ((x - sweep.from) / span) * (plot.right - plot.left);
+  const toY = (y: number) =>
+    plot.bottom - (y / yMax) * (plot.bottom - plot.top);
+  const ticks = (max: number, min: number, format: (v: number) => string) =>
+    Array.from({ length: TICK_COUNT }, (_, i) => {
+      const value = min + ((max - min) * i) / (TICK_COUNT - 1);
+      return { value, label: format(value) };
+    });
+
+  return {
+    width,
+    height,
+    plot,
+    xLabel: `${SWEEP_VARIABLE_LABELS[sweep.variable]} (${unitSymbol(
+      xQuantity,
+      units
+    )})`,
+    yLabel: `${kind === "load" ? "Load/Tire" : "I/P"} (${unitSymbol(
+      yQuantity,
+      units
+    )})`,
+    xTicks: ticks(sweep.to, sweep.from, formatX).map((t) => ({
+      at: toX(t.value),
+      label: t.label,
+    })),
+    yTicks: ticks(yMax, 0, (y) => formatValue(yQuantity, y, units, 0)).map((t) => ({
+      at: toY(t.value),
+      label: t.label,
+    })),
+    lines: series.flatMap((s, idx) => {
+      const color = SWEEP_COLORS[idx % SWEEP_COLORS.length];
+      const line = (values: number[], dashed: boolean): ChartLine => ({
+        color,
+        dashed,
+        points: s.pos.points.map((p, i) => [toX(p.x), toY(values[i])]),
+      });
+      return [line(s.value, false), line(s.limit, true)];
+    }),
+    markers: series.flatMap((s, idx) =>
+      s.crossover
+        ? [
+            {
+              x: toX(s.crossover.x),
+              y: toY(s.crossover.value),
+              color: SWEEP_COLORS[idx % SWEEP_COLORS.length],
+              label: formatQuantity(xQuantity, s.crossover.x, units),
+            },
+          ]
+        : []
+    ),
+    currentX:
+      sweep.current >= Math.min(sweep.from, sweep.to) &&
+      sweep.current <= Math.max(sweep.from, sweep.to)
+        ? toX(sweep.current)
+        : null,
+    legend: series.map((s, idx) => ({
+      color: SWEEP_COLORS[idx % SWEEP_COLORS.length],
+      label: `P${s.pos.id}`,
+    })),
+  };
+}
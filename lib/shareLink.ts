@@ -0,0 +1,56 @@
+import type { Scenario, ScenarioParseResult } from "./scenario";
+import { parseScenario } from "./scenario";
+
+const HASH_KEY = "scenario";
+
+// base64url keeps the payload free of characters that need escaping in a URL
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Builds a shareable URL that reproduces the scenario.
+ * The scenario document, including its embedded tire records, is stored in
+ * the URL hash so it is never sent to the server.
+ * @param {Scenario} scenario - The scenario to share.
+ * @param {string} baseUrl - The page URL; any existing hash is replaced.
+ * @returns {string} The shareable URL.
+ */
+export function createShareUrl(scenario: Scenario, baseUrl: string): string {
+  const params = new URLSearchParams({
+    [HASH_KEY]: toBase64Url(JSON.stringify(scenario)),
+  });
+  return `${baseUrl.split("#")[0]}#${params}`;
+}
+
+/**
+ * Reads a shared scenario from a URL hash.
+ * @param {string} hash - The URL hash, with or without the leading "#".
+ * @returns {ScenarioParseResult | null} The parsed scenario or its errors, or null if the hash holds no scenario.
+ */
+export function readShareHash(hash: string): ScenarioParseResult | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!encoded) return null;
+
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+    JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["The link is damaged or incomplete"] };
+  }
+  return parseScenario(text);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { SpeedRow, Tire } from "./calc";
+import { validateTireData } from "./tireData";
+
+const TIRE: Tire = {
+  "TIRE Size": "10.00-20 16 EMSA",
+  "LOAD INDEX": 3000,
+  "STD I/P": 115,
+  "Speed symbol": "J",
+};
+
+const ROW: SpeedRow = {
+  speed: 40,
+  F: 1.15,
+  G: 1.15,
+  J: 1.15,
+  K: 1.15,
+  L: 1.15,
+  M: 1.15,
+  psi: 136.4,
+};
+
+describe("validateTireData", () => {
+  it("keeps a valid file as it is", () => {
+    expect(validateTireData({ tires: [TIRE], speed_table: [ROW] })).toEqual({
+      data: { tires: [TIRE], speed_table: [ROW] },
+      problems: [],
+      quarantined: 0,
+    });
+  });
+
+  it("quarantines invalid and duplicate records with their paths", () => {
+    const result = validateTireData({
+      tires: [
+        TIRE,
+        { ...TIRE, "TIRE Size": "12.00-20", "STD I/P": "115" },
+        { ...TIRE, "Speed symbol": "Z" },
+        { ...TIRE, "TIRE Size": "11.00-20", "DUAL DERATING": 1.2 },
+      ],
+      speed_table: [ROW, { ...ROW, K: -1 }, ROW],
+    });
+    expect(result.data).toEqual({ tires: [TIRE], speed_table: [ROW] });
+    expect(result.quarantined).toBe(5);
+    expect(result.problems).toEqual([
+      'tires[1]["STD I/P"] must be a positive number',
+      'tires[2]["Speed symbol"] must be one of F, G, J, K, L, M (got "Z")',
+      'tires[3]["DUAL DERATING"] must be a number above 0 and at most 1',
+      "speed_table[1].K must be a number ≥ 0",
+      "speed_table[2].speed 40 appears more than once",
+    ]);
+  });
+
+  it("reports a duplicate tire size", () => {
+    const { problems } = validateTireData({
+      tires: [TIRE, TIRE],
+      speed_table: [ROW],
+    });
+    expect(problems).toEqual([
+      'tires[1]["TIRE Size"] "10.00-20 16 EMSA" appears more than once',
+    ]);
+  });
+
+  it("yields no data when nothing usable remains", () => {
+    expect(validateTireData([])).toEqual({
+      data: null,
+      problems: ["The file must hold an object"],
+      quarantined: 0,
+    });
+    expect(
+      validateTireData({ tires: [{ ...TIRE, "LOAD INDEX": 0 }] })
+    ).toEqual({
+      data: null,
+      problems: [
+        'tires[0]["LOAD INDEX"] must be a positive number',
+        "speed_table must be an array",
+        "No valid tire records",
+        "No valid speed table rows",
+      ],
+      quarantined: 1,
+    });
+  });
+});
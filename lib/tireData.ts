@@ -0,0 +1,166 @@
+import type { SpeedRow, Tire, TireData } from "./calc";
+import { SPEED_SYMBOLS } from "./calc";
+
+/**
+ * The outcome of validating a tire data file. Invalid records are quarantined:
+ * they are left out of `data` and described in `problems`.
+ * `data` is null when nothing usable remains.
+ */
+export type TireDataValidation = {
+  data: TireData | null;
+  problems: string[];
+  quarantined: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Checks one tire record, pushing a message with its path for every invalid field.
+ * @param {unknown} value - The record to check.
+ * @param {string} path - Where the record sits, e.g. "tires[3]".
+ * @param {string[]} errors - Receives the problems found.
+ * @returns {void} Problems are appended to `errors`.
+ */
+export function validateTire(value: unknown, path: string, errors: string[]) {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value["TIRE Size"] !== "string" || !value["TIRE Size"].trim())
+    errors.push(`${path}["TIRE Size"] must be a non-empty string`);
+  if (!isFiniteNumber(value["LOAD INDEX"]) || value["LOAD INDEX"] <= 0)
+    errors.push(`${path}["LOAD INDEX"] must be a positive number`);
+  if (!isFiniteNumber(value["STD I/P"]) || value["STD I/P"] <= 0)
+    errors.push(`${path}["STD I/P"] must be a positive number`);
+  if (!(SPEED_SYMBOLS as unknown[]).includes(value["Speed symbol"]))
+    errors.push(
+      `${path}["Speed symbol"] must be one of ${SPEED_SYMBOLS.join(", ")}${
+        value["Speed symbol"] === undefined
+          ? " (missing)"
+          : ` (got ${JSON.stringify(value["Speed symbol"])})`
+      }`
+    );
+  // the dual ratings are optional
+  if (
+    value["DUAL LOAD"] !== undefined &&
+    (!isFiniteNumber(value["DUAL LOAD"]) || value["DUAL LOAD"] <= 0)
+  )
+    errors.push(`${path}["DUAL LOAD"] must be a positive number`);
+  if (
+    value["DUAL DERATING"] !== undefined &&
+    (!isFiniteNumber(value["DUAL DERATING"]) ||
+      value["DUAL DERATING"] <= 0 ||
+      value["DUAL DERATING"] > 1)
+  )
+    errors.push(`${path}["DUAL DERATING"] must be a number above 0 and at most 1`);
+}
+
+/**
+ * Checks one speed table row, pushing a message with its path for every invalid field.
+ * A factor of 0 is valid and means the symbol is not allowed at that speed.
+ * @param {unknown} value - The row to check.
+ * @param {string} path - Where the row sits, e.g. "speed_table[3]".
+ * @param {string[]} errors - Receives the problems found.
+ * @returns {void} Problems are appended to `errors`.
+ */
+export function validateSpeedRow(
+  value: unknown,
+  path: string,
+  errors: string[]
+) {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isFiniteNumber(value.speed) || value.speed < 0)
+    errors.push(`${path}.speed must be a number ≥ 0`);
+  SPEED_SYMBOLS.forEach((symbol) => {
+    if (!isFiniteNumber(value[symbol]) || (value[symbol] as number) < 0)
+      errors.push(`${path}.${symbol} must be a number ≥ 0`);
+  });
+  if (!isFiniteNumber(value.psi) || value.psi <= 0)
+    errors.push(`${path}.psi must be a positive number`);
+}
+
+/**
+ * Validates a parsed tire data file. Every invalid or duplicate record is
+ * reported with its index and field and quarantined; the valid records are kept.
+ * @param {unknown} json - The parsed file contents.
+ * @returns {TireDataValidation} The usable data and every problem found.
+ */
+export function validateTireData(json: unknown): TireDataValidation {
+  if (!isRecord(json)) {
+    return {
+      data: null,
+      problems: ["The file must hold an object"],
+      quarantined: 0,
+    };
+  }
+
+  const problems: string[] = [];
+  let quarantined = 0;
+
+  const tires: Tire[] = [];
+  if (!Array.isArray(json.tires)) {
+    problems.push("tires must be an array");
+  } else {
+    json.tires.forEach((value, idx) => {
+      const path = `tires[${idx}]`;
+      const errors: string[] = [];
+      validateTire(value, path, errors);
+      if (
+        !errors.length &&
+        tires.some((t) => t["TIRE Size"] === (value as Tire)["TIRE Size"])
+      )
+        errors.push(
+          `${path}["TIRE Size"] "${(value as Tire)["TIRE Size"]}" appears more than once`
+        );
+      if (errors.length) {
+        problems.push(...errors);
+        quarantined++;
+      } else {
+        tires.push(value as Tire);
+      }
+    });
+  }
+
+  const speedTable: SpeedRow[] = [];
+  if (!Array.isArray(json.speed_table)) {
+    problems.push("speed_table must be an array");
+  } else {
+    json.speed_table.forEach((value, idx) => {
+      const path = `speed_table[${idx}]`;
+      const errors: string[] = [];
+      validateSpeedRow(value, path, errors);
+      if (
+        !errors.length &&
+        speedTable.some((r) => r.speed === (value as SpeedRow).speed)
+      )
+        errors.push(
+          `${path}.speed ${(value as SpeedRow).speed} appears more than once`
+        );
+      if (errors.length) {
+        problems.push(...errors);
+        quarantined++;
+      } else {
+        speedTable.push(value as SpeedRow);
+      }
+    });
+  }
+
+  if (!tires.length) problems.push("No valid tire records");
+  if (!speedTable.length) problems.push("No valid speed table rows");
+
+  return {
+    data:
+      tires.length && speedTable.length
+        ? { tires, speed_table: speedTable }
+        : null,
+    problems,
+    quarantined,
+  };
+}
@@ -0,0 +1,222 @@
+export type PressureUnit = "psi" | "kPa" | "bar";
+export type LoadUnit = "kg" | "lb";
+export type SpeedUnit = "km/h" | "mph";
+
+/**
+ * The units values are shown, entered and exported in. Calculations and
+ * stored data always use the canonical units: tons for vehicle and axle loads,
+ * kg for tire loads, psi and km/h.
+ * - load: "kg" shows tire loads in kg and vehicle loads in tons; "lb" shows both in lb.
+ */
+export type UnitPreferences = {
+  pressure: PressureUnit;
+  load: LoadUnit;
+  speed: SpeedUnit;
+};
+
+/** A kind of value that has a unit */
+export type Quantity = "pressure" | "tireLoad" | "vehicleLoad" | "speed";
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  pressure: "psi",
+  load: "kg",
+  speed: "km/h",
+};
+
+export const PRESSURE_UNIT_LABELS: Record<PressureUnit, string> = {
+  psi: "psi",
+  kPa: "kPa",
+  bar: "bar",
+};
+
+export const LOAD_UNIT_LABELS: Record<LoadUnit, string> = {
+  kg: "kg / t",
+  lb: "lb",
+};
+
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  "km/h": "km/h",
+  mph: "mph",
+};
+
+// Display units per canonical unit
+const PRESSURE_FACTORS: Record<PressureUnit, number> = {
+  psi: 1,
+  kPa: 6.894757,
+  bar: 0.06894757,
+};
+const LB_PER_KG = 2.20462262;
+const MPH_PER_KMH = 0.621371192;
+
+function unitFactor(quantity: Quantity, units: UnitPreferences): number {
+  switch (quantity) {
+    case "pressure":
+      return PRESSURE_FACTORS[units.pressure];
+    case "tireLoad":
+      return units.load === "lb" ? LB_PER_KG : 1;
+    case "vehicleLoad":
+      return units.load === "lb" ? 1000 * LB_PER_KG : 1;
+    case "speed":
+      return units.speed === "mph" ? MPH_PER_KMH : 1;
+  }
+}
+
+function unitDecimals(quantity: Quantity, units: UnitPreferences): number {
+  switch (quantity) {
+    case "pressure":
+      return units.pressure === "bar" ? 2 : units.pressure === "kPa" ? 0 : 1;
+    case "tireLoad":
+      return 0;
+    case "vehicleLoad":
+      return units.load === "lb" ? 0 : 2;
+    case "speed":
+      return 1;
+  }
+}
+
+/**
+ * The unit symbol a quantity is shown in.
+ * @param {Quantity} quantity - The kind of value.
+ * @param {UnitPreferences} units - The unit preferences.
+ * @returns {string} The symbol, e.g. "kPa" or "t".
+ */
+export function unitSymbol(quantity: Quantity, units: UnitPreferences): string {
+  switch (quantity) {
+    case "pressure":
+      return units.pressure;
+    case "tireLoad":
+      return units.load;
+    case "vehicleLoad":
+      return units.load === "lb" ? "lb" : "t";
+    case "speed":
+      return units.speed;
+  }
+}
+
+/**
+ * Converts a value from its canonical unit to the preferred unit.
+ * @param {Quantity} quantity - The kind of value.
+ * @param {number} value - The value in t, kg, psi or km/h.
+ * @param {UnitPreferences} units - The unit preferences.
+ * @returns {number} The value in the preferred unit.
+ */
+export function toDisplayUnit(
+  quantity: Quantity,
+  value: number,
+  units: UnitPreferences
+): number {
+  return value * unitFactor(quantity, units);
+}
+
+/**
+ * Converts a value entered in the preferred unit back to its canonical unit.
+ * @param {Quantity} quantity - The kind of value.
+ * @param {number} value - The value in the preferred unit.
+ * @param {UnitPreferences} units - The unit preferences.
+ * @returns {number} The value in t, kg, psi or km/h.
+ */
+export function fromDisplayUnit(
+  quantity: Quantity,
+  value: number,
+  units: UnitPreferences
+): number {
+  return value / unitFactor(quantity, units);
+}
+
+/**
+ * Formats a value in the preferred unit, without the symbol. Speeds drop
+ * trailing zeros since they are mostly whole numbers.
+ * @param {Quantity} quantity - The kind of value.
+ * @param {number} value - The value in its canonical unit.
+ * @param {UnitPreferences} units - The unit preferences.
+ * @param {number} [decimals] - Overrides the unit's usual number of decimals.
+ * @returns {string} The number text, e.g. "7.93".
+ */
+export function formatValue(
+  quantity: Quantity,
+  value: number,
+  units: UnitPreferences,
+  decimals: number = unitDecimals(quantity, units)
+): string {
+  const display = toDisplayUnit(quantity, value, units).toFixed(decimals);
+  return quantity === "speed" ? String(+display) : display;
+}
+
+/**
+ * Formats a value in the preferred unit, with the symbol.
+ * @param {Quantity} quantity - The kind of value.
+ * @param {number} value - The value in its canonical unit.
+ * @param {UnitPreferences} units - The unit preferences.
+ * @param {number} [decimals] - Overrides the unit's usual number of decimals.
+ * @returns {string} The text, e.g. "7.93 bar".
+ */
+export function formatQuantity(
+  quantity: Quantity,
+  value: number,
+  units: UnitPreferences,
+  decimals?: number
+): string {
+  return `${formatValue(quantity, value, units, decimals)} ${unitSymbol(
+    quantity,
+    units
+  )}`;
+}
+
+/**
+ * Reads the units a text is written in, e.g. "31 mph" or "7,050 lb".
+ * Symbols that are not found leave the canonical unit in place.
+ * @param {string} text - The text, such as an exported cell.
+ * @returns {UnitPreferences} The units found.
+ */
+export function unitsInText(text: string): UnitPreferences {
+  return {
+    pressure: /\bkpa\b/i.test(text)
+      ? "kPa"
+      : /\bbar\b/i.test(text)
+      ? "bar"
+      : "psi",
+    load: /\blbs?\b/i.test(text) ? "lb" : "kg",
+    speed: /\bmph\b/i.test(text) ? "mph" : "km/h",
+  };
+}
+
+const UNIT_PREFERENCES_KEY = "load-ip-calc.units";
+
+/**
+ * Reads the unit preferences from the browser's localStorage.
+ * Missing or unknown units fall back to the canonical ones.
+ * @returns {UnitPreferences} The stored preferences.
+ */
+export function loadUnitPreferences(): UnitPreferences {
+  if (typeof window === "undefined") return DEFAULT_UNITS;
+  try {
+    const raw = window.localStorage.getItem(UNIT_PREFERENCES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    const pick = <T extends string>(
+      value: unknown,
+      labels: Record<T, string>,
+      fallback: T
+    ) =>
+      typeof value === "string" && value in labels ? (value as T) : fallback;
+    return {
+      pressure: pick(
+        parsed?.pressure,
+        PRESSURE_UNIT_LABELS,
+        DEFAULT_UNITS.pressure
+      ),
+      load: pick(parsed?.load, LOAD_UNIT_LABELS, DEFAULT_UNITS.load),
+      speed: pick(parsed?.speed, SPEED_UNIT_LABELS, DEFAULT_UNITS.speed),
+    };
+  } catch {
+    return DEFAULT_UNITS;
+  }
+}
+
+/**
+ * Stores the unit preferences in localStorage.
+ * @param {UnitPreferences} units - The preferences to store.
+ * @returns {void} This function does not return a value.
+ */
+export function saveUnitPreferences(units: UnitPreferences) {
+  window.localStorage.setItem(UNIT_PREFERENCES_KEY, JSON.stringify(units));
+}
@@ -0,0 +1,130 @@
+import type { AxleConfig } from "./axles";
+import { isAxleRaised, positionAxleCount, positionAxleType } from "./axles";
+import type { CheckStatus } from "./calc";
+import type { Rgb } from "./sensitivity";
+
+/** A position to draw: its id and axles */
+export type FramePositionInput = AxleConfig & { id: string };
+
+export type FrameRect = { x: number; y: number; width: number; height: number };
+
+export type FramePosition = {
+  id: string;
+  /** The worst of the position's load and I/P checks, or null without results */
+  status: CheckStatus | null;
+  /** The badge color for the status */
+  color: Rgb;
+  liftable: boolean;
+  /** A raised lift axle is drawn in outline */
+  raised: boolean;
+  /** Every wheel of the group, left and right */
+  wheels: FrameRect[];
+  /** The y of each axle line of the group */
+  axleYs: number[];
+  badge: { x: number; y: number; r: number };
+  /** The area of the group, for selecting and hovering */
+  bounds: FrameRect;
+};
+
+/**
+ * The vehicle frame laid out in its own coordinates (mm in the PDF), y
+ * pointing down, so the page's SVG and the PDF draw exactly the same thing.
+ */
+export type FrameLayout = {
+  width: number;
+  height: number;
+  /** Where the axle lines start and end, between the wheel sets */
+  axleFrom: number;
+  axleTo: number;
+  positions: FramePosition[];
+};
+
+export const FRAME_STATUS_COLORS: Record<CheckStatus, Rgb> = {
+  ok: [22, 163, 74],
+  caution: [217, 119, 6],
+  over: [220, 38, 38],
+};
+
+// Badge color of positions without results
+const FRAME_NO_RESULT_COLOR: Rgb = [66, 139, 202];
+
+const MARGIN = 2;
+const WHEEL_WIDTH = 4;
+const SUPER_SINGLE_WIDTH = 6;
+const WHEEL_HEIGHT = 8;
+const WHEEL_GAP = 1;
+const AXLE_SPACING = WHEEL_HEIGHT + 2;
+const POSITION_GAP = 6;
+const BADGE_RADIUS = 4;
+// Wheel sets are aligned to the width of a dual pair on either side
+const SIDE_WIDTH = WHEEL_WIDTH * 2 + WHEEL_GAP;
+const AXLE_LENGTH = 12;
+
+/**
+ * Lays out the vehicle frame: one row of wheels per axle of each position,
+ * front first, with a badge in the status color in the middle of each group.
+ * @param {FramePositionInput[]} positions - The positions, front first.
+ * @param {(CheckStatus | null)[]} statuses - The worst check status of each position, in the same order.
+ * @returns {FrameLayout} The frame in its own coordinates.
+ */
+export function layoutVehicleFrame(
+  positions: FramePositionInput[],
+  statuses: (CheckStatus | null)[]
+): FrameLayout {
+  const leftWheelsEnd = MARGIN + SIDE_WIDTH;
+  const centerX = leftWheelsEnd + AXLE_LENGTH;
+  const rightWheelsStart = centerX + AXLE_LENGTH;
+
+  let y = MARGIN;
+  const laidOut = positions.map((pos, idx) => {
+    const axleType = positionAxleType(pos);
+    const axles = positionAxleCount(pos);
+    const wheelWidths =
+      axleType === "dual"
+        ? [WHEEL_WIDTH, WHEEL_WIDTH]
+        : [axleType === "superSingle" ? SUPER_SINGLE_WIDTH : WHEEL_WIDTH];
+    const setWidth =
+      wheelWidths.reduce((sum, w) => sum + w, 0) +
+      WHEEL_GAP * (wheelWidths.length - 1);
+    const groupHeight = (axles - 1) * AXLE_SPACING + WHEEL_HEIGHT;
+    const top = y;
+    y += groupHeight + POSITION_GAP;
+
+    const rows = Array.from({ length: axles }, (_, axle) => top + axle * AXLE_SPACING);
+    const status = statuses[idx] ?? null;
+    return {
+      id: pos.id,
+      status,
+      color: status ? FRAME_STATUS_COLORS[status] : FRAME_NO_RESULT_COLOR,
+      liftable: !!pos.liftable,
+      raised: isAxleRaised(pos),
+      // left sets end at the frame's left edge, right sets start at its right edge
+      wheels: rows.flatMap((rowY) =>
+        [leftWheelsEnd - setWidth, rightWheelsStart].flatMap((startX) => {
+          let x = startX;
+          return wheelWidths.map((width) => {
+            const wheel = { x, y: rowY, width, height: WHEEL_HEIGHT };
+            x += width + WHEEL_GAP;
+            return wheel;
+          });
+        })
+      ),
+      axleYs: rows.map((rowY) => rowY + WHEEL_HEIGHT / 2),
+      badge: { x: centerX, y: top + groupHeight / 2, r: BADGE_RADIUS },
+      bounds: {
+        x: MARGIN,
+        y: top,
+        width: rightWheelsStart + SIDE_WIDTH - MARGIN,
+        height: groupHeight,
+      },
+    };
+  });
+
+  return {
+    width: rightWheelsStart + SIDE_WIDTH + MARGIN,
+    height: Math.max(y - POSITION_GAP + MARGIN, MARGIN * 2),
+    axleFrom: leftWheelsEnd + 1,
+    axleTo: rightWheelsStart - 1,
+    positions: laidOut,
+  };
+}